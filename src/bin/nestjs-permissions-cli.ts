@@ -34,7 +34,7 @@ program
 
 program
   .command('generate-migration')
-  .description('Generate migration')
+  .description('Generate a migration for the configuration changes since the last one')
   .option('-n, --name <n>', 'Migration name')
   .option('-d, --dir <directory>', 'Migration directory', 'src/migrations')
   .action(async (options) => {
@@ -0,0 +1,46 @@
+import { MemoryCacheStore } from './memory-cache.store';
+import { PermissionCacheStore } from '../interfaces/cache.interface';
+
+describe('MemoryCacheStore', () => {
+  it('expires entries after their ttl', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('user:1:permissions', ['posts.read'], 0.05);
+
+    await expect(store.get('user:1:permissions')).resolves.toEqual(['posts.read']);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await expect(store.get('user:1:permissions')).resolves.toBeUndefined();
+  });
+
+  it('evicts the least recently used entries', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', 1, 60);
+    await store.set('b', 2, 60);
+    await store.get('a');
+    await store.set('c', 3, 60);
+
+    expect(store.size).toBe(2);
+    await expect(store.get('a')).resolves.toBe(1);
+    await expect(store.get('b')).resolves.toBeUndefined();
+  });
+
+  it('deletes by prefix', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('user:1:permissions', 1, 60);
+    await store.set('user:2:permissions', 2, 60);
+    await store.set('role:admin:permissions', 3, 60);
+
+    await store.deleteByPrefix('user:');
+    expect(store.size).toBe(1);
+    await store.clear();
+    expect(store.size).toBe(0);
+  });
+
+  it('has no other instance to notify', async () => {
+    const store: PermissionCacheStore = new MemoryCacheStore();
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    await store.publish({ scope: 'all' });
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
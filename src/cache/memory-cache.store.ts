@@ -0,0 +1,70 @@
+import { PermissionCacheStore } from '../interfaces/cache.interface';
+
+interface MemoryCacheEntry {
+  value: any;
+  expiresAt: number;
+}
+
+export class MemoryCacheStore implements PermissionCacheStore {
+  private readonly entries: Map<string, MemoryCacheEntry> = new Map();
+
+  constructor(private readonly maxEntries = 10000) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    // Evict least recently used entries beyond the bound
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async publish(): Promise<void> {
+    // A single process has no other instances to notify
+  }
+
+  subscribe(): () => void {
+    // Nothing is ever published by another instance
+    return () => undefined;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,206 @@
+import { Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { RedisCacheStore } from './redis-cache.store';
+import { CacheInvalidationEvent } from '../interfaces/cache.interface';
+import { FakeRedisServer } from '../testing/fake-redis';
+import {
+  createTestDataSource,
+  createTestServices,
+  seedPermissions,
+  seedRole,
+  TestServices,
+} from '../testing/test-module';
+
+// Pub/sub messages are handled asynchronously, as with a real connection
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('RedisCacheStore', () => {
+  let server: FakeRedisServer;
+
+  const createStore = (options: { keyPrefix?: string; channel?: string } = {}) =>
+    new RedisCacheStore({ client: server.client(), subscriber: server.subscriber(), ...options });
+
+  beforeEach(() => {
+    server = new FakeRedisServer();
+  });
+
+  it('stores JSON values under the key prefix', async () => {
+    const store = createStore();
+    await store.set('user:1:permissions', { names: ['posts.read'] }, 0.2);
+
+    expect(server.keys()).toEqual(['nestjs-permissions:user:1:permissions']);
+    await expect(store.get('user:1:permissions')).resolves.toEqual({ names: ['posts.read'] });
+    await expect(store.get('user:2:permissions')).resolves.toBeUndefined();
+
+    await store.delete('user:1:permissions');
+    expect(server.keys()).toEqual([]);
+  });
+
+  it('deletes by prefix across scan pages without treating the prefix as a pattern', async () => {
+    const store = createStore({ keyPrefix: 'app:' });
+    for (let i = 0; i < 250; i++) {
+      await store.set(`user:${i}:permissions`, i, 60);
+    }
+    await store.set('role:admin:permissions', [], 60);
+    await store.set('user*:permissions', 'literal', 60);
+
+    await store.deleteByPrefix('user:');
+    expect(server.keys()).toEqual(['app:role:admin:permissions', 'app:user*:permissions']);
+
+    await store.deleteByPrefix('user*');
+    expect(server.keys()).toEqual(['app:role:admin:permissions']);
+
+    await store.clear();
+    expect(server.keys()).toEqual([]);
+  });
+
+  it('delivers invalidations to the other instances only', async () => {
+    const first = createStore();
+    const second = createStore();
+    const received: Record<string, CacheInvalidationEvent[]> = { first: [], second: [] };
+    first.subscribe((event) => void received.first.push(event));
+    second.subscribe((event) => void received.second.push(event));
+
+    await first.publish({ scope: 'user', userId: '42' });
+    await flush();
+
+    expect(received).toEqual({ first: [], second: [{ scope: 'user', userId: '42' }] });
+  });
+
+  it('ignores other channels and foreign messages', async () => {
+    const store = createStore();
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    const client = server.client();
+    await client.publish('other-channel', JSON.stringify({ origin: 'x', event: { scope: 'all' } }));
+    await client.publish('nestjs-permissions:invalidate', 'not json');
+    await flush();
+    expect(listener).not.toHaveBeenCalled();
+
+    await client.publish(
+      'nestjs-permissions:invalidate',
+      JSON.stringify({ origin: 'x', event: { scope: 'all' } }),
+    );
+    await flush();
+    expect(listener).toHaveBeenCalledWith({ scope: 'all' });
+  });
+
+  it('logs failing listeners and subscriptions instead of rejecting', async () => {
+    const logged = jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    try {
+      const first = createStore();
+      const second = createStore();
+      second.subscribe(() => Promise.reject(new Error('database unavailable')));
+
+      const subscriber = server.subscriber();
+      subscriber.subscribe = () => Promise.reject(new Error('connection lost'));
+      new RedisCacheStore({ client: server.client(), subscriber }).subscribe(jest.fn());
+
+      await first.publish({ scope: 'hierarchy' });
+      await flush();
+      await flush();
+
+      expect(logged.mock.calls.map(([message]) => message)).toEqual(
+        expect.arrayContaining([
+          'Cache invalidation listener failed: database unavailable',
+          'Subscribing to nestjs-permissions:invalidate failed: connection lost',
+        ]),
+      );
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+      logged.mockRestore();
+    }
+  });
+
+  it('stops listening when closed', async () => {
+    const first = createStore();
+    const second = createStore();
+    const listener = jest.fn();
+    second.subscribe(listener);
+
+    await second.close();
+    await first.publish({ scope: 'routes' });
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  describe('across instances', () => {
+    let dataSource: DataSource;
+    let first: TestServices;
+    let second: TestServices;
+
+    beforeEach(async () => {
+      dataSource = await createTestDataSource();
+      await seedPermissions(dataSource, ['posts.read', 'posts.write']);
+      await seedRole(dataSource, 'viewer', 10, ['posts.read']);
+      await seedRole(dataSource, 'editor', 20, ['posts.write']);
+
+      first = await createTestServices(dataSource, { cacheStore: createStore() });
+      await first.permissionService.assignRole('u1', 'editor', 'admin');
+    });
+
+    afterEach(async () => {
+      await dataSource.destroy();
+    });
+
+    const startSecond = async () => {
+      second = await createTestServices(dataSource, { cacheStore: createStore() });
+    };
+
+    const permissionNames = async (services: TestServices) =>
+      (await services.permissionService.getUserPermissions('u1')).map((p) => p.name).sort();
+
+    it('keeps the shared cache when an instance starts', async () => {
+      expect(await permissionNames(first)).toEqual(['posts.write']);
+      const cached = server.keys();
+      expect(cached).toContain('nestjs-permissions:user:u1:permissions');
+
+      await startSecond();
+      await second.roleHierarchyService.loadHierarchy();
+      await flush();
+
+      expect(server.keys()).toEqual(cached);
+    });
+
+    it('reloads the hierarchy once on the changing instance and once on the others', async () => {
+      await startSecond();
+      expect(await permissionNames(second)).toEqual(['posts.write']);
+
+      const firstLoads = jest.spyOn(first.roleHierarchyService, 'loadHierarchy');
+      const secondLoads = jest.spyOn(second.roleHierarchyService, 'loadHierarchy');
+
+      await first.roleHierarchyService.addInheritance('editor', 'viewer');
+      await flush();
+
+      expect(firstLoads).toHaveBeenCalledTimes(1);
+      expect(secondLoads).toHaveBeenCalledTimes(1);
+      expect(second.roleHierarchyService.getInheritedRoles('editor')).toEqual(['editor', 'viewer']);
+      expect(await permissionNames(second)).toEqual(['posts.read', 'posts.write']);
+    });
+
+    it('drops compiled route rules on the other instances', async () => {
+      await startSecond();
+      await second.permissionService.getRoutePermissions('/posts', 'GET');
+      const before = second.permissionService.getRouteRulesSnapshot();
+
+      await first.permissionService.createRouterPermission(
+        { route: '/posts', method: 'GET', permission: 'posts.read' },
+        'admin',
+      );
+      await flush();
+
+      expect(second.permissionService.getRouteRulesSnapshot()).toBeNull();
+      const rules = await second.permissionService.getRoutePermissions('/posts', 'GET');
+      expect(rules.map((rule) => rule.permission.name)).toEqual(['posts.read']);
+      expect(second.permissionService.getRouteRulesSnapshot()?.version).toBe(
+        (before?.version ?? 0) + 1,
+      );
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { randomUUID } from 'crypto';
+import { Logger } from '@nestjs/common';
+import {
+  CacheInvalidationEvent,
+  CacheInvalidationListener,
+  PermissionCacheStore,
+} from '../interfaces/cache.interface';
+
+// The subset of the ioredis client API used by the store
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  scan(cursor: string, ...args: Array<string | number>): Promise<[string, string[]]>;
+  publish(channel: string, message: string): Promise<number>;
+}
+
+export interface RedisSubscriberLike {
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+}
+
+export interface RedisCacheStoreOptions {
+  client: RedisClientLike;
+  // A dedicated connection, Redis clients in subscriber mode cannot run other commands
+  subscriber?: RedisSubscriberLike;
+  keyPrefix?: string;
+  channel?: string;
+}
+
+interface InvalidationMessage {
+  origin: string;
+  event: CacheInvalidationEvent;
+}
+
+export class RedisCacheStore implements PermissionCacheStore {
+  private readonly logger = new Logger(RedisCacheStore.name);
+  private readonly client: RedisClientLike;
+  private readonly subscriber?: RedisSubscriberLike;
+  private readonly keyPrefix: string;
+  private readonly channel: string;
+  private readonly instanceId = randomUUID();
+  private readonly listeners: Set<CacheInvalidationListener> = new Set();
+  private subscribed = false;
+
+  constructor(options: RedisCacheStoreOptions) {
+    this.client = options.client;
+    this.subscriber = options.subscriber;
+    this.keyPrefix = options.keyPrefix ?? 'nestjs-permissions:';
+    this.channel = options.channel ?? `${this.keyPrefix}invalidate`;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.client.get(this.keyPrefix + key);
+    return value === null ? undefined : JSON.parse(value);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    await this.client.set(
+      this.keyPrefix + key,
+      JSON.stringify(value),
+      'EX',
+      Math.max(1, Math.ceil(ttlSeconds)),
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    // SCAN instead of KEYS so large keyspaces do not block Redis
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.scan(
+        cursor,
+        'MATCH',
+        `${this.escapePattern(this.keyPrefix + prefix)}*`,
+        'COUNT',
+        100,
+      );
+      if (keys.length > 0) {
+        await this.client.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteByPrefix('');
+  }
+
+  async publish(event: CacheInvalidationEvent): Promise<void> {
+    // The publishing instance already updated its own state
+    const message: InvalidationMessage = { origin: this.instanceId, event };
+    await this.client.publish(this.channel, JSON.stringify(message));
+  }
+
+  subscribe(listener: CacheInvalidationListener): () => void {
+    this.listeners.add(listener);
+    this.ensureSubscribed();
+    return () => this.listeners.delete(listener);
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+    if (this.subscriber && this.subscribed) {
+      await this.subscriber.unsubscribe(this.channel);
+      this.subscribed = false;
+    }
+  }
+
+  private ensureSubscribed(): void {
+    if (!this.subscriber || this.subscribed) {
+      return;
+    }
+
+    this.subscribed = true;
+    this.subscriber.on('message', (channel, raw) => {
+      if (channel !== this.channel) {
+        return;
+      }
+
+      try {
+        const message: InvalidationMessage = JSON.parse(raw);
+        // Skip the echo of our own messages
+        if (message.origin !== this.instanceId) {
+          // Listeners reload from the database, a failure must not become an unhandled rejection
+          this.notify(message.event).catch((error) =>
+            this.logger.error(`Cache invalidation listener failed: ${error.message}`, error.stack),
+          );
+        }
+      } catch {
+        // Ignore messages that were not published by this store
+      }
+    });
+    this.subscriber
+      .subscribe(this.channel)
+      .catch((error) =>
+        this.logger.error(`Subscribing to ${this.channel} failed: ${error.message}`, error.stack),
+      );
+  }
+
+  private async notify(event: CacheInvalidationEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      await listener(event);
+    }
+  }
+
+  private escapePattern(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+  }
+}
@@ -24,7 +24,9 @@ export const defaultConfig: PermissionConfig = {
           route: 'route',
           method: 'method',
           permissionId: 'permission_id',
+          effect: 'effect',
           isActive: 'is_active',
+          tenantId: 'tenant_id',
           createdAt: 'created_at',
           updatedAt: 'updated_at',
         },
@@ -35,9 +37,67 @@ export const defaultConfig: PermissionConfig = {
           id: 'id',
           userId: 'user_id',
           permissionId: 'permission_id',
+          effect: 'effect',
           grantedAt: 'granted_at',
           expiresAt: 'expires_at',
           isActive: 'is_active',
+          tenantId: 'tenant_id',
+        },
+      },
+      roles: {
+        tableName: 'roles',
+        fields: {
+          id: 'id',
+          name: 'name',
+          description: 'description',
+          level: 'level',
+          isActive: 'is_active',
+          createdAt: 'created_at',
+          updatedAt: 'updated_at',
+        },
+      },
+      rolePermissions: {
+        tableName: 'role_permissions',
+        fields: {
+          id: 'id',
+          roleId: 'role_id',
+          permissionId: 'permission_id',
+          effect: 'effect',
+          createdAt: 'created_at',
+        },
+      },
+      userRoles: {
+        tableName: 'user_roles',
+        fields: {
+          id: 'id',
+          userId: 'user_id',
+          roleId: 'role_id',
+          grantedAt: 'granted_at',
+          expiresAt: 'expires_at',
+          isActive: 'is_active',
+          tenantId: 'tenant_id',
+        },
+      },
+      roleInheritance: {
+        tableName: 'role_inheritance',
+        fields: {
+          id: 'id',
+          roleId: 'role_id',
+          inheritedRoleId: 'inherited_role_id',
+          createdAt: 'created_at',
+        },
+      },
+      permissionPolicies: {
+        tableName: 'permission_policies',
+        fields: {
+          id: 'id',
+          permissionId: 'permission_id',
+          name: 'name',
+          description: 'description',
+          conditions: 'conditions',
+          isActive: 'is_active',
+          createdAt: 'created_at',
+          updatedAt: 'updated_at',
         },
       },
     },
@@ -47,6 +107,7 @@ export const defaultConfig: PermissionConfig = {
     adminRole: 'admin',
     publicRoutes: ['/auth/login', '/auth/register'],
     permissionStrategy: 'whitelist',
+    expirySweepInterval: 60, // 1 minute
   },
   security: defaultSecurityConfig,
 };
@@ -1,2 +1,53 @@
+import { HttpMethod, RouteMethod } from './interfaces/router.interface';
+import { PolicyOperator } from './interfaces/policy.interface';
+import { PermissionEffect } from './interfaces/permission.interface';
+import { AuditAction } from './models/audit-log.entity';
+
 export const PERMISSIONS_KEY = 'permissions';
 export const PERMISSION_OPTIONS_KEY = 'permission_options';
+export const ADMIN_ROLE_KEY = 'admin_role';
+export const CHECK_POLICY_KEY = 'check_policy';
+
+export const HTTP_METHODS: HttpMethod[] = [
+  'GET',
+  'POST',
+  'PUT',
+  'DELETE',
+  'PATCH',
+  'OPTIONS',
+  'HEAD',
+  '*',
+];
+
+export const ROUTE_METHODS: RouteMethod[] = [...HTTP_METHODS, 'GRAPHQL', 'WS', 'RPC'];
+
+export const POLICY_OPERATORS: PolicyOperator[] = [
+  'eq',
+  'ne',
+  'in',
+  'nin',
+  'contains',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'exists',
+];
+
+export const PERMISSION_EFFECTS: PermissionEffect[] = ['allow', 'deny'];
+
+export const AUDIT_ACTIONS: AuditAction[] = ['check', 'grant', 'revoke', 'modify'];
+
+// Debug header describing the guard's decision, see `permissions.decisionHeader`
+export const PERMISSION_DECISION_HEADER = 'X-Permission-Decision';
+
+export const PERMISSIONS_MODULE_OPTIONS = 'PERMISSIONS_MODULE_OPTIONS';
+
+export const PERMISSIONS_FEATURE_OPTIONS = 'PERMISSIONS_FEATURE_OPTIONS';
+
+export const PERMISSION_CACHE_STORE = 'PERMISSION_CACHE_STORE';
+
+// Named exports of the published config files, see ConfigLoader
+export const PERMISSIONS_CONFIG_EXPORTS = ['config', 'permissionsConfig'];
+
+export const SECURITY_CONFIG_EXPORTS = ['securityConfig'];
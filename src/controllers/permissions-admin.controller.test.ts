@@ -0,0 +1,173 @@
+import { DataSource } from 'typeorm';
+import { PermissionsAdminController } from './permissions-admin.controller';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import {
+  AuthenticationRequiredException,
+  PermissionDeniedException,
+} from '../exceptions/permission.exceptions';
+import { AuditLogEntity } from '../models/audit-log.entity';
+import { createHttpContext } from '../testing/execution-context';
+import {
+  createTestDataSource,
+  createTestGuard,
+  createTestServices,
+  seedPermissions,
+  seedRole,
+  TestServices,
+} from '../testing/test-module';
+
+describe('PermissionsAdminController', () => {
+  let dataSource: DataSource;
+  let services: TestServices;
+  let guard: PermissionsGuard;
+  let controller: PermissionsAdminController;
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    await seedPermissions(dataSource, ['posts.read']);
+    await seedRole(dataSource, 'admin', 100);
+    services = await createTestServices(dataSource);
+    await services.permissionService.assignRole('root', 'admin', 'system');
+
+    guard = createTestGuard(services);
+    createController();
+  });
+
+  const createController = () => {
+    controller = new PermissionsAdminController(
+      services.permissionService,
+      services.auditService,
+      services.policyEvaluator,
+      guard,
+    );
+  };
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  const adminRequest = (userId: string, handler = 'getPermissions') =>
+    createHttpContext({
+      controller: PermissionsAdminController,
+      handler,
+      route: '/permissions-admin/permissions',
+      user: { id: userId },
+    });
+
+  it('requires the admin role', async () => {
+    await expect(guard.canActivate(adminRequest('u1'))).rejects.toBeInstanceOf(
+      PermissionDeniedException,
+    );
+    await expect(guard.canActivate(adminRequest('root'))).resolves.toBe(true);
+  });
+
+  it('authorizes a request once when the global guard also runs', async () => {
+    const hasRole = jest.spyOn(services.permissionService, 'hasRole');
+    const context = adminRequest('root');
+
+    // APP_GUARD first, then the controller's @UseGuards()
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(hasRole).toHaveBeenCalledTimes(1);
+
+    await guard.canActivate(adminRequest('root'));
+    expect(hasRole).toHaveBeenCalledTimes(2);
+  });
+
+  it('authorizes a request once across guard instances', async () => {
+    const hasRole = jest.spyOn(services.permissionService, 'hasRole');
+    const context = adminRequest('root');
+
+    // Nest instantiates APP_GUARD and @UseGuards() guards separately
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    await expect(createTestGuard(services).canActivate(context)).resolves.toBe(true);
+    expect(hasRole).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not remember denied requests', async () => {
+    const context = adminRequest('u1');
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(PermissionDeniedException);
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(PermissionDeniedException);
+  });
+
+  it('manages grants on behalf of the admin', async () => {
+    const context = adminRequest('root', 'grantPermission');
+    const { request } = context;
+    await guard.canActivate(context);
+
+    await controller.grantPermission('u1', { permission: 'posts.read' } as any, request);
+    expect(await controller.getUserGrants('u1')).toHaveLength(1);
+    await expect(
+      controller.revokePermission('u1', 'posts.read', undefined, request),
+    ).resolves.toEqual({ revoked: true });
+
+    const entries = await dataSource.getRepository(AuditLogEntity).find({
+      where: { target: 'posts.read' },
+    });
+    expect(entries.map((entry) => [entry.userId, entry.action]).sort()).toEqual([
+      ['root', 'grant'],
+      ['root', 'revoke'],
+    ]);
+  });
+
+  it('manages roles and role permissions on behalf of the admin', async () => {
+    const context = adminRequest('root', 'createRole');
+    const { request } = context;
+    await guard.canActivate(context);
+
+    await controller.createRole({ name: 'editor', level: 20 } as any, request);
+    await controller.grantRolePermission('editor', { permission: 'posts.read' }, request);
+    expect(await controller.getRolePermissions('editor')).toMatchObject([
+      { effect: 'allow', permission: { name: 'posts.read' } },
+    ]);
+    await controller.grantRolePermission(
+      'editor',
+      { permission: 'posts.read', effect: 'deny' },
+      request,
+    );
+    expect(await controller.getRolePermissions('editor')).toMatchObject([
+      { effect: 'deny', permission: { name: 'posts.read' } },
+    ]);
+    await expect(controller.revokeRolePermission('editor', 'posts.read', request)).resolves.toEqual(
+      { revoked: true },
+    );
+    await controller.deactivateRole('editor', request);
+    expect((await controller.getRoles()).map((role) => [role.name, role.is_active])).toEqual([
+      ['admin', true],
+      ['editor', false],
+    ]);
+
+    const entries = await dataSource.getRepository(AuditLogEntity).find({
+      where: { action: 'modify' },
+    });
+    expect(entries.every((entry) => entry.userId === 'root')).toBe(true);
+    expect(entries).toHaveLength(5);
+  });
+
+  it('audits the user resolved by the guard', async () => {
+    guard = createTestGuard(services, {
+      userResolver: (ctx) => ctx.switchToHttp().getRequest().principal,
+      userIdExtractor: (principal) => principal.sub,
+    });
+    createController();
+    const context = adminRequest('ignored', 'grantPermission');
+    context.request.principal = { sub: 'root' };
+
+    await guard.canActivate(context);
+    await controller.grantPermission('u1', { permission: 'posts.read' } as any, context.request);
+
+    const entry = await dataSource.getRepository(AuditLogEntity).findOne({
+      where: { action: 'grant', target: 'posts.read' },
+    });
+    expect(entry?.userId).toBe('root');
+  });
+
+  it('refuses to act for requests the guard has not authorized', async () => {
+    const { request } = adminRequest('root', 'grantPermission');
+
+    expect(() =>
+      controller.grantPermission('u1', { permission: 'posts.read' } as any, request),
+    ).toThrow(AuthenticationRequiredException);
+  });
+});
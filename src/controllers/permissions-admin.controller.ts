@@ -0,0 +1,271 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+  UsePipes,
+} from '@nestjs/common';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RequireAdminRole } from '../decorators/require-admin-role.decorator';
+import { DtoValidationPipe } from '../pipes/dto-validation.pipe';
+import { PermissionService } from '../services/permission.service';
+import { AuditLogPage, AuditService } from '../services/audit.service';
+import { CreatePermissionDto, UpdatePermissionDto } from '../dto/permission.dto';
+import { CreateRouterPermissionDto, UpdateRouterPermissionDto } from '../dto/router-permission.dto';
+import { AssignRoleDto, GrantPermissionDto } from '../dto/grant.dto';
+import { CreateRoleDto, GrantRolePermissionDto, UpdateRoleDto } from '../dto/role.dto';
+import { AuditLogQueryDto } from '../dto/audit-log-query.dto';
+import { ExplainQueryDto } from '../dto/explain-query.dto';
+import { CreatePolicyDto } from '../dto/policy.dto';
+import { PolicyEvaluatorService } from '../services/policy-evaluator.service';
+import { AuthenticationRequiredException } from '../exceptions/permission.exceptions';
+
+@Controller('permissions-admin')
+@UseGuards(PermissionsGuard)
+@UsePipes(DtoValidationPipe)
+@RequireAdminRole()
+export class PermissionsAdminController {
+  constructor(
+    private readonly permissionService: PermissionService,
+    private readonly auditService: AuditService,
+    private readonly policyEvaluator: PolicyEvaluatorService,
+    private readonly permissionsGuard: PermissionsGuard,
+  ) {}
+
+  // Permissions
+
+  @Get('permissions')
+  getPermissions() {
+    return this.permissionService.getPermissions();
+  }
+
+  @Post('permissions')
+  createPermission(@Body() dto: CreatePermissionDto, @Req() request: any) {
+    return this.permissionService.createPermission(dto, this.getActorId(request));
+  }
+
+  @Patch('permissions/:name')
+  updatePermission(
+    @Param('name') name: string,
+    @Body() dto: UpdatePermissionDto,
+    @Req() request: any,
+  ) {
+    return this.permissionService.updatePermission(name, dto, this.getActorId(request));
+  }
+
+  @Delete('permissions/:name')
+  deactivatePermission(@Param('name') name: string, @Req() request: any) {
+    return this.permissionService.deactivatePermission(name, this.getActorId(request));
+  }
+
+  @Get('permissions/:name/policies')
+  getPolicies(@Param('name') name: string) {
+    return this.policyEvaluator.getPolicies(name);
+  }
+
+  // Roles
+
+  @Get('roles')
+  getRoles() {
+    return this.permissionService.getRoles();
+  }
+
+  @Post('roles')
+  createRole(@Body() dto: CreateRoleDto, @Req() request: any) {
+    return this.permissionService.createRole(dto, this.getActorId(request));
+  }
+
+  @Patch('roles/:name')
+  updateRole(@Param('name') name: string, @Body() dto: UpdateRoleDto, @Req() request: any) {
+    return this.permissionService.updateRole(name, dto, this.getActorId(request));
+  }
+
+  @Delete('roles/:name')
+  deactivateRole(@Param('name') name: string, @Req() request: any) {
+    return this.permissionService.deactivateRole(name, this.getActorId(request));
+  }
+
+  @Get('roles/:name/permissions')
+  getRolePermissions(@Param('name') name: string) {
+    return this.permissionService.getRolePermissions(name);
+  }
+
+  @Post('roles/:name/permissions')
+  grantRolePermission(
+    @Param('name') name: string,
+    @Body() dto: GrantRolePermissionDto,
+    @Req() request: any,
+  ) {
+    return this.permissionService.grantRolePermission(
+      name,
+      dto.permission,
+      this.getActorId(request),
+      { effect: dto.effect },
+    );
+  }
+
+  @Delete('roles/:name/permissions/:permission')
+  async revokeRolePermission(
+    @Param('name') name: string,
+    @Param('permission') permission: string,
+    @Req() request: any,
+  ) {
+    const revoked = await this.permissionService.revokeRolePermission(
+      name,
+      permission,
+      this.getActorId(request),
+    );
+    return { revoked };
+  }
+
+  // Policies
+
+  @Post('policies')
+  createPolicy(@Body() dto: CreatePolicyDto, @Req() request: any) {
+    return this.policyEvaluator.createPolicy(dto, this.getActorId(request));
+  }
+
+  @Delete('policies/:id')
+  deactivatePolicy(@Param('id', ParseIntPipe) id: number, @Req() request: any) {
+    return this.policyEvaluator.deactivatePolicy(id, this.getActorId(request));
+  }
+
+  // Router permissions
+
+  @Get('routes')
+  getRouterPermissions() {
+    return this.permissionService.getRouterPermissions();
+  }
+
+  @Post('routes')
+  createRouterPermission(@Body() dto: CreateRouterPermissionDto, @Req() request: any) {
+    return this.permissionService.createRouterPermission(dto, this.getActorId(request));
+  }
+
+  @Post('routes/refresh')
+  refreshRouteRules() {
+    return this.permissionService.refreshRouteRules();
+  }
+
+  @Patch('routes/:id')
+  updateRouterPermission(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateRouterPermissionDto,
+    @Req() request: any,
+  ) {
+    return this.permissionService.updateRouterPermission(id, dto, this.getActorId(request));
+  }
+
+  @Delete('routes/:id')
+  deactivateRouterPermission(@Param('id', ParseIntPipe) id: number, @Req() request: any) {
+    return this.permissionService.deactivateRouterPermission(id, this.getActorId(request));
+  }
+
+  // User grants
+
+  @Get('users/:userId/permissions')
+  getUserGrants(@Param('userId') userId: string) {
+    return this.permissionService.getUserGrants(userId);
+  }
+
+  @Post('users/:userId/permissions')
+  grantPermission(
+    @Param('userId') userId: string,
+    @Body() dto: GrantPermissionDto,
+    @Req() request: any,
+  ) {
+    const options = { expiresAt: dto.expiresAt, tenantId: dto.tenantId };
+    return dto.effect === 'deny'
+      ? this.permissionService.denyPermission(
+          userId,
+          dto.permission,
+          this.getActorId(request),
+          options,
+        )
+      : this.permissionService.grantPermission(
+          userId,
+          dto.permission,
+          this.getActorId(request),
+          options,
+        );
+  }
+
+  @Delete('users/:userId/permissions/:permission')
+  async revokePermission(
+    @Param('userId') userId: string,
+    @Param('permission') permission: string,
+    @Query('tenantId') tenantId: string | undefined,
+    @Req() request: any,
+  ) {
+    const revoked = await this.permissionService.revokePermission(
+      userId,
+      permission,
+      this.getActorId(request),
+      { tenantId },
+    );
+    return { revoked };
+  }
+
+  @Get('users/:userId/explain')
+  explain(@Param('userId') userId: string, @Query() query: ExplainQueryDto) {
+    return this.permissionService.explain(userId, query.route, query.method, {
+      tenantId: query.tenantId,
+      strategy: query.strategy,
+      requiredPermissions: query.permissions,
+    });
+  }
+
+  // Role assignments
+
+  @Get('users/:userId/roles')
+  getUserRoles(@Param('userId') userId: string) {
+    return this.permissionService.getUserRoleAssignments(userId);
+  }
+
+  @Post('users/:userId/roles')
+  assignRole(@Param('userId') userId: string, @Body() dto: AssignRoleDto, @Req() request: any) {
+    return this.permissionService.assignRole(userId, dto.role, this.getActorId(request), {
+      expiresAt: dto.expiresAt,
+      tenantId: dto.tenantId,
+    });
+  }
+
+  @Delete('users/:userId/roles/:role')
+  async unassignRole(
+    @Param('userId') userId: string,
+    @Param('role') role: string,
+    @Query('tenantId') tenantId: string | undefined,
+    @Req() request: any,
+  ) {
+    const revoked = await this.permissionService.unassignRole(
+      userId,
+      role,
+      this.getActorId(request),
+      { tenantId },
+    );
+    return { revoked };
+  }
+
+  // Audit logs
+
+  @Get('audit-logs')
+  getAuditLogs(@Query() query: AuditLogQueryDto): Promise<AuditLogPage> {
+    return this.auditService.findAuditLogs(query.toFilters());
+  }
+
+  private getActorId(request: any): string {
+    // Audit entries use the same id the guard checked the admin role for
+    const userId = this.permissionsGuard.getAuthorizedUserId(request);
+    if (!userId) {
+      throw new AuthenticationRequiredException();
+    }
+    return userId;
+  }
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { CHECK_POLICY_KEY } from '../constants';
+import { CheckPolicyMetadata, CheckPolicyOptions } from '../interfaces/policy.interface';
+
+export function CheckPolicy(
+  permission: string,
+  options: CheckPolicyOptions = {},
+): MethodDecorator & ClassDecorator {
+  const metadata: CheckPolicyMetadata = { permission, ...options };
+  return SetMetadata(CHECK_POLICY_KEY, metadata);
+}
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { ADMIN_ROLE_KEY } from '../constants';
+
+export function RequireAdminRole(): MethodDecorator & ClassDecorator {
+  return SetMetadata(ADMIN_ROLE_KEY, true);
+}
@@ -0,0 +1,47 @@
+import { AuditAction } from '../models/audit-log.entity';
+import { AuditFilters } from '../services/audit.service';
+import { DtoValidator } from '../utils/dto-validator.util';
+import { AUDIT_ACTIONS } from '../constants';
+
+const MAX_PAGE_SIZE = 500;
+
+export class AuditLogQueryDto {
+  userId?: string;
+  tenantId?: string;
+  action?: AuditAction;
+  target?: string;
+  result?: boolean;
+  startDate?: Date;
+  endDate?: Date;
+  page = 1;
+  limit = 50;
+
+  static validate(value: any): AuditLogQueryDto {
+    const input = DtoValidator.requireObject(value || {});
+    const dto = new AuditLogQueryDto();
+    dto.userId = DtoValidator.optionalString(input, 'userId');
+    dto.tenantId = DtoValidator.optionalString(input, 'tenantId');
+    dto.action = DtoValidator.optionalEnum(input, 'action', AUDIT_ACTIONS);
+    dto.target = DtoValidator.optionalString(input, 'target');
+    dto.result = DtoValidator.optionalBoolean(input, 'result');
+    dto.startDate = DtoValidator.optionalDate(input, 'startDate');
+    dto.endDate = DtoValidator.optionalDate(input, 'endDate');
+    dto.page = DtoValidator.optionalInteger(input, 'page', 1) ?? dto.page;
+    dto.limit = DtoValidator.optionalInteger(input, 'limit', 1, MAX_PAGE_SIZE) ?? dto.limit;
+    return dto;
+  }
+
+  toFilters(): AuditFilters {
+    return {
+      userId: this.userId,
+      tenantId: this.tenantId,
+      action: this.action,
+      target: this.target,
+      result: this.result,
+      startDate: this.startDate,
+      endDate: this.endDate,
+      limit: this.limit,
+      offset: (this.page - 1) * this.limit,
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { ROUTE_METHODS } from '../constants';
+import { RouteMethod } from '../interfaces/router.interface';
+import { DtoValidator } from '../utils/dto-validator.util';
+
+export class ExplainQueryDto {
+  route: string;
+  method: RouteMethod = 'GET';
+  tenantId?: string;
+  strategy?: 'AND' | 'OR';
+  // Comma separated decorator permissions of the handler
+  permissions: string[] = [];
+
+  static validate(value: any): ExplainQueryDto {
+    const input = DtoValidator.requireObject(value || {});
+    const dto = new ExplainQueryDto();
+    dto.route = DtoValidator.requireString(input, 'route');
+    dto.method =
+      DtoValidator.optionalEnum(
+        {
+          ...input,
+          method: input.method === undefined ? undefined : String(input.method).toUpperCase(),
+        },
+        'method',
+        ROUTE_METHODS,
+      ) ?? dto.method;
+    dto.tenantId = DtoValidator.optionalString(input, 'tenantId');
+    dto.strategy = DtoValidator.optionalEnum(input, 'strategy', ['AND', 'OR'] as const);
+    const permissions = DtoValidator.optionalString(input, 'permissions');
+    dto.permissions = permissions
+      ? permissions
+          .split(',')
+          .map((p) => p.trim())
+          .filter(Boolean)
+      : [];
+    return dto;
+  }
+}
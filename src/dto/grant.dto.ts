@@ -0,0 +1,44 @@
+import { PERMISSION_EFFECTS } from '../constants';
+import { ValidationException } from '../exceptions/permission.exceptions';
+import { PermissionEffect } from '../interfaces/permission.interface';
+import { DtoValidator } from '../utils/dto-validator.util';
+
+function futureDate(input: Record<string, any>, field: string): Date | undefined {
+  const date = DtoValidator.optionalDate(input, field);
+  if (date && date.getTime() <= Date.now()) {
+    throw new ValidationException(field, 'Must be in the future');
+  }
+  return date;
+}
+
+export class GrantPermissionDto {
+  permission: string;
+  expiresAt?: Date;
+  tenantId?: string;
+  effect?: PermissionEffect;
+
+  static validate(value: any): GrantPermissionDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new GrantPermissionDto();
+    dto.permission = DtoValidator.requireString(input, 'permission');
+    dto.expiresAt = futureDate(input, 'expiresAt');
+    dto.tenantId = DtoValidator.optionalString(input, 'tenantId');
+    dto.effect = DtoValidator.optionalEnum(input, 'effect', PERMISSION_EFFECTS);
+    return dto;
+  }
+}
+
+export class AssignRoleDto {
+  role: string;
+  expiresAt?: Date;
+  tenantId?: string;
+
+  static validate(value: any): AssignRoleDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new AssignRoleDto();
+    dto.role = DtoValidator.requireString(input, 'role');
+    dto.expiresAt = futureDate(input, 'expiresAt');
+    dto.tenantId = DtoValidator.optionalString(input, 'tenantId');
+    return dto;
+  }
+}
@@ -0,0 +1,41 @@
+import { CreatePermissionInput, UpdatePermissionInput } from '../interfaces/permission.interface';
+import { DtoValidator } from '../utils/dto-validator.util';
+
+export class CreatePermissionDto implements CreatePermissionInput {
+  name: string;
+  description?: string;
+  level?: number;
+
+  static validate(value: any): CreatePermissionDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new CreatePermissionDto();
+    dto.name = DtoValidator.requireString(input, 'name');
+    dto.description = DtoValidator.optionalString(input, 'description');
+    dto.level = DtoValidator.optionalInteger(input, 'level');
+    return dto;
+  }
+}
+
+export class UpdatePermissionDto implements UpdatePermissionInput {
+  name?: string;
+  description?: string;
+  level?: number;
+  is_active?: boolean;
+
+  static validate(value: any): UpdatePermissionDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new UpdatePermissionDto();
+    dto.name = DtoValidator.optionalString(input, 'name');
+    dto.description = DtoValidator.optionalString(input, 'description');
+    dto.level = DtoValidator.optionalInteger(input, 'level');
+    dto.is_active = DtoValidator.optionalBoolean(input, 'is_active');
+
+    // Drop fields that were not sent so they are not overwritten
+    Object.keys(dto).forEach((key) => {
+      if (dto[key as keyof UpdatePermissionDto] === undefined) {
+        delete dto[key as keyof UpdatePermissionDto];
+      }
+    });
+    return dto;
+  }
+}
@@ -0,0 +1,49 @@
+import { POLICY_OPERATORS } from '../constants';
+import { ValidationException } from '../exceptions/permission.exceptions';
+import { PermissionPolicyInput, PolicyRule } from '../interfaces/policy.interface';
+import { DtoValidator } from '../utils/dto-validator.util';
+
+function policyRule(input: any, field: string): PolicyRule {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationException(field, 'Expected a policy rule object');
+  }
+
+  if (Array.isArray(input.all) || Array.isArray(input.any)) {
+    const key = Array.isArray(input.all) ? 'all' : 'any';
+    if (input[key].length === 0) {
+      throw new ValidationException(`${field}.${key}`, 'Must contain at least one rule');
+    }
+    const rules = input[key].map((rule: any, i: number) =>
+      policyRule(rule, `${field}.${key}[${i}]`),
+    );
+    return key === 'all' ? { all: rules } : { any: rules };
+  }
+
+  if (input.not !== undefined) {
+    return { not: policyRule(input.not, `${field}.not`) };
+  }
+
+  return {
+    field: DtoValidator.requireString(input, 'field'),
+    operator: DtoValidator.requireEnum(input, 'operator', POLICY_OPERATORS),
+    value: input.value,
+    valueFrom: DtoValidator.optionalString(input, 'valueFrom'),
+  };
+}
+
+export class CreatePolicyDto implements PermissionPolicyInput {
+  permission: string;
+  name: string;
+  description?: string;
+  conditions: PolicyRule;
+
+  static validate(value: any): CreatePolicyDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new CreatePolicyDto();
+    dto.permission = DtoValidator.requireString(input, 'permission');
+    dto.name = DtoValidator.requireString(input, 'name');
+    dto.description = DtoValidator.optionalString(input, 'description');
+    dto.conditions = policyRule(input.conditions, 'conditions');
+    return dto;
+  }
+}
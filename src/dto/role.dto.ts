@@ -0,0 +1,56 @@
+import { PERMISSION_EFFECTS } from '../constants';
+import { PermissionEffect } from '../interfaces/permission.interface';
+import { CreateRoleInput, UpdateRoleInput } from '../interfaces/role.interface';
+import { DtoValidator } from '../utils/dto-validator.util';
+
+export class CreateRoleDto implements CreateRoleInput {
+  name: string;
+  description?: string;
+  level?: number;
+
+  static validate(value: any): CreateRoleDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new CreateRoleDto();
+    dto.name = DtoValidator.requireString(input, 'name');
+    dto.description = DtoValidator.optionalString(input, 'description');
+    dto.level = DtoValidator.optionalInteger(input, 'level');
+    return dto;
+  }
+}
+
+export class UpdateRoleDto implements UpdateRoleInput {
+  name?: string;
+  description?: string;
+  level?: number;
+  is_active?: boolean;
+
+  static validate(value: any): UpdateRoleDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new UpdateRoleDto();
+    dto.name = DtoValidator.optionalString(input, 'name');
+    dto.description = DtoValidator.optionalString(input, 'description');
+    dto.level = DtoValidator.optionalInteger(input, 'level');
+    dto.is_active = DtoValidator.optionalBoolean(input, 'is_active');
+
+    // Drop fields that were not sent so they are not overwritten
+    Object.keys(dto).forEach((key) => {
+      if (dto[key as keyof UpdateRoleDto] === undefined) {
+        delete dto[key as keyof UpdateRoleDto];
+      }
+    });
+    return dto;
+  }
+}
+
+export class GrantRolePermissionDto {
+  permission: string;
+  effect?: PermissionEffect;
+
+  static validate(value: any): GrantRolePermissionDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new GrantRolePermissionDto();
+    dto.permission = DtoValidator.requireString(input, 'permission');
+    dto.effect = DtoValidator.optionalEnum(input, 'effect', PERMISSION_EFFECTS);
+    return dto;
+  }
+}
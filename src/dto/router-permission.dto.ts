@@ -0,0 +1,55 @@
+import { PERMISSION_EFFECTS, ROUTE_METHODS } from '../constants';
+import { PermissionEffect } from '../interfaces/permission.interface';
+import { RouteMethod, RouterPermissionInput } from '../interfaces/router.interface';
+import { DtoValidator } from '../utils/dto-validator.util';
+
+export class CreateRouterPermissionDto implements RouterPermissionInput {
+  route: string;
+  method: RouteMethod;
+  permission: string;
+  tenantId?: string;
+  effect?: PermissionEffect;
+
+  static validate(value: any): CreateRouterPermissionDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new CreateRouterPermissionDto();
+    dto.route = DtoValidator.requireString(input, 'route');
+    dto.method = DtoValidator.requireEnum(
+      { ...input, method: String(input.method ?? '').toUpperCase() },
+      'method',
+      ROUTE_METHODS,
+    );
+    dto.permission = DtoValidator.requireString(input, 'permission');
+    dto.tenantId = DtoValidator.optionalString(input, 'tenantId');
+    dto.effect = DtoValidator.optionalEnum(input, 'effect', PERMISSION_EFFECTS);
+    return dto;
+  }
+}
+
+export class UpdateRouterPermissionDto implements Partial<RouterPermissionInput> {
+  route?: string;
+  method?: RouteMethod;
+  permission?: string;
+  tenantId?: string;
+  effect?: PermissionEffect;
+  is_active?: boolean;
+
+  static validate(value: any): UpdateRouterPermissionDto {
+    const input = DtoValidator.requireObject(value);
+    const dto = new UpdateRouterPermissionDto();
+    dto.route = DtoValidator.optionalString(input, 'route');
+    dto.method = DtoValidator.optionalEnum(
+      {
+        ...input,
+        method: input.method === undefined ? undefined : String(input.method).toUpperCase(),
+      },
+      'method',
+      ROUTE_METHODS,
+    );
+    dto.permission = DtoValidator.optionalString(input, 'permission');
+    dto.tenantId = DtoValidator.optionalString(input, 'tenantId');
+    dto.effect = DtoValidator.optionalEnum(input, 'effect', PERMISSION_EFFECTS);
+    dto.is_active = DtoValidator.optionalBoolean(input, 'is_active');
+    return dto;
+  }
+}
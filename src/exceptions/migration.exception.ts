@@ -4,7 +4,8 @@ export type MigrationExceptionType =
   | 'MIGRATION_FAILED'
   | 'SCHEMA_MISMATCH'
   | 'ROLLBACK_FAILED'
-  | 'CONFIG_LOAD_ERROR';
+  | 'CONFIG_LOAD_ERROR'
+  | 'UNSUPPORTED_DIALECT';
 
 export class MigrationException extends HttpException {
   constructor(
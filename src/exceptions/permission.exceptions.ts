@@ -1,16 +1,47 @@
 import { HttpException, HttpStatus } from '@nestjs/common';
+import { PermissionErrorDetail } from '../interfaces/config.interface';
 
 export class PermissionDeniedException extends HttpException {
-  constructor(permission: string, userId: string, metadata?: Record<string, any>) {
+  readonly missingPermissions: string[];
+  readonly userId: string;
+
+  constructor(
+    permission: string | string[],
+    userId: string,
+    metadata?: Record<string, any>,
+    detail: PermissionErrorDetail = 'detailed',
+  ) {
+    const permissions = Array.isArray(permission) ? permission : [permission];
+    super(
+      // Generic bodies keep the permission model away from clients
+      detail === 'generic'
+        ? { message: 'Insufficient permissions', errorCode: 'PERMISSION_DENIED' }
+        : {
+            message:
+              permissions.length > 0
+                ? `User ${userId} lacks permission: ${permissions.join(', ')}`
+                : `User ${userId} may not access this resource`,
+            errorCode: 'PERMISSION_DENIED',
+            requiredPermission: permissions[0],
+            missingPermissions: permissions,
+            userId,
+            metadata,
+          },
+      HttpStatus.FORBIDDEN,
+    );
+    this.missingPermissions = permissions;
+    this.userId = userId;
+  }
+}
+
+export class AuthenticationRequiredException extends HttpException {
+  constructor() {
     super(
       {
-        message: `User ${userId} lacks permission: ${permission}`,
-        errorCode: 'PERMISSION_DENIED',
-        requiredPermission: permission,
-        userId,
-        metadata,
+        message: 'Authentication required',
+        errorCode: 'AUTHENTICATION_REQUIRED',
       },
-      HttpStatus.FORBIDDEN,
+      HttpStatus.UNAUTHORIZED,
     );
   }
 }
@@ -0,0 +1,90 @@
+import { ArgumentsHost, ForbiddenException, HttpStatus, Logger } from '@nestjs/common';
+import { GlobalErrorFilter } from './error.filter';
+import {
+  AuthenticationRequiredException,
+  PermissionDeniedException,
+} from '../exceptions/permission.exceptions';
+
+describe('GlobalErrorFilter', () => {
+  const filter = new GlobalErrorFilter();
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const render = (exception: Error) => {
+    const response = {
+      statusCode: 0,
+      body: undefined as any,
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json(body: any) {
+        this.body = body;
+        return this;
+      },
+    };
+    const host = {
+      switchToHttp: () => ({
+        getRequest: () => ({ url: '/reports/1', method: 'DELETE' }),
+        getResponse: () => response,
+      }),
+    } as unknown as ArgumentsHost;
+
+    filter.catch(exception, host);
+    return response;
+  };
+
+  it('renders the missing permissions of a denial', () => {
+    const { statusCode, body } = render(
+      new PermissionDeniedException(['reports.delete'], 'u1', { reason: 'missing' }),
+    );
+
+    expect(statusCode).toBe(HttpStatus.FORBIDDEN);
+    expect(body).toMatchObject({
+      statusCode: 403,
+      path: '/reports/1',
+      method: 'DELETE',
+      errorCode: 'PERMISSION_DENIED',
+      message: 'User u1 lacks permission: reports.delete',
+      requiredPermission: 'reports.delete',
+      missingPermissions: ['reports.delete'],
+      metadata: { reason: 'missing' },
+    });
+  });
+
+  it('renders generic denials without the permission model', () => {
+    const { body } = render(new PermissionDeniedException(['reports.delete'], 'u1', {}, 'generic'));
+
+    expect(body).toMatchObject({
+      errorCode: 'PERMISSION_DENIED',
+      message: 'Insufficient permissions',
+    });
+    expect(body).not.toHaveProperty('missingPermissions');
+    expect(body).not.toHaveProperty('userId');
+  });
+
+  it('renders missing authentication as 401', () => {
+    const { statusCode, body } = render(new AuthenticationRequiredException());
+
+    expect(statusCode).toBe(HttpStatus.UNAUTHORIZED);
+    expect(body).toMatchObject({ errorCode: 'AUTHENTICATION_REQUIRED' });
+  });
+
+  it('derives the error code of built-in and unknown errors', () => {
+    expect(render(new ForbiddenException()).body).toMatchObject({
+      statusCode: 403,
+      errorCode: 'FORBIDDEN',
+    });
+    expect(render(new Error('boom')).body).toMatchObject({
+      statusCode: 500,
+      errorCode: 'INTERNAL_SERVER_ERROR',
+      message: 'boom',
+    });
+  });
+});
@@ -30,6 +30,9 @@ export class GlobalErrorFilter implements ExceptionFilter {
       } else {
         errorResponse.message = exceptionResponse;
       }
+
+      // Nest's built-in exceptions carry no errorCode, derive it from the status
+      errorResponse.errorCode = errorResponse.errorCode || HttpStatus[status];
     } else {
       errorResponse.message = exception.message;
       errorResponse.errorCode = 'INTERNAL_SERVER_ERROR';
@@ -46,6 +49,6 @@ export class GlobalErrorFilter implements ExceptionFilter {
       exception.stack,
     );
 
-    response.status(status).json(errorResponse);
+    response.status(status).json({ statusCode: status, ...errorResponse });
   }
 }
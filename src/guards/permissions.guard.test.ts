@@ -0,0 +1,549 @@
+import { SetMetadata } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { PermissionsGuard } from './permissions.guard';
+import { RequirePermission } from '../decorators/require-permission.decorator';
+import { CheckPolicy } from '../decorators/check-policy.decorator';
+import {
+  AuthenticationRequiredException,
+  PermissionDeniedException,
+} from '../exceptions/permission.exceptions';
+import { createHttpContext, createTransportContext } from '../testing/execution-context';
+import { AuditLogEntity } from '../models/audit-log.entity';
+import { PolicyResourceLoader } from '../interfaces/policy.interface';
+import {
+  createTestDataSource,
+  createTestGuard,
+  createTestServices,
+  seedPermissions,
+  TestServices,
+} from '../testing/test-module';
+
+@RequirePermission(['reports.read'])
+class ReportsController {
+  @RequirePermission(['reports.export'])
+  export(): void {
+    return undefined;
+  }
+
+  @RequirePermission(['reports.export', 'reports.admin'], { strategy: 'OR' })
+  exportAny(): void {
+    return undefined;
+  }
+
+  list(): void {
+    return undefined;
+  }
+}
+
+class OpenController {
+  @RequirePermission([], { fallback: 'allow' })
+  open(): void {
+    return undefined;
+  }
+
+  closed(): void {
+    return undefined;
+  }
+}
+
+@RequirePermission(['reports.read'])
+class ReportsResolver {
+  reports(): void {
+    return undefined;
+  }
+
+  @RequirePermission(['reports.export'])
+  exportReport(): void {
+    return undefined;
+  }
+
+  owner(): void {
+    return undefined;
+  }
+}
+
+class MessagesHandler {
+  handle(): void {
+    return undefined;
+  }
+
+  // As set by @MessagePattern({ cmd: 'sum' })
+  @SetMetadata('microservices:pattern', [{ cmd: 'sum' }])
+  sum(): void {
+    return undefined;
+  }
+}
+
+class OrderLoader implements PolicyResourceLoader {
+  load(request: any) {
+    return { id: request.params.id, ownerId: request.params.id === '1' ? 'u1' : 'u2' };
+  }
+}
+
+class OrdersController {
+  // The resource defaults to the request body
+  @CheckPolicy('orders.update')
+  update(): void {
+    return undefined;
+  }
+
+  @CheckPolicy('orders.update', { loader: OrderLoader })
+  updateById(): void {
+    return undefined;
+  }
+}
+
+describe('PermissionsGuard', () => {
+  let dataSource: DataSource;
+  let services: TestServices;
+  let guard: PermissionsGuard;
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    services = await createTestServices(dataSource);
+    guard = createTestGuard(services);
+    await seedPermissions(dataSource, [
+      'reports.read',
+      'reports.export',
+      'reports.admin',
+      'admin.access',
+      'users.read',
+    ]);
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  const grant = (userId: string, ...permissions: string[]) =>
+    services.permissionService.bulkGrant(
+      permissions.map((permission) => ({ userId, permission })),
+      'test',
+    );
+
+  const context = (handler: string, controller: any = ReportsController, userId = 'u1') =>
+    createHttpContext({
+      controller,
+      handler,
+      path: `/${handler}`,
+      user: userId ? { id: userId } : undefined,
+    });
+
+  it('merges handler and controller permissions under the AND strategy', async () => {
+    await grant('u1', 'reports.export');
+    await expect(guard.canActivate(context('export'))).rejects.toBeInstanceOf(
+      PermissionDeniedException,
+    );
+
+    await grant('u1', 'reports.read');
+    await expect(guard.canActivate(context('export'))).resolves.toBe(true);
+  });
+
+  it('accepts any of the permissions under the OR strategy', async () => {
+    await grant('u1', 'reports.read', 'reports.admin');
+    await expect(guard.canActivate(context('exportAny'))).resolves.toBe(true);
+  });
+
+  it('reports the missing permissions', async () => {
+    await grant('u1', 'reports.read');
+    const error = await guard.canActivate(context('export')).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PermissionDeniedException);
+    expect(error.getResponse()).toMatchObject({ missingPermissions: ['reports.export'] });
+  });
+
+  it('applies controller permissions to undecorated handlers', async () => {
+    await expect(guard.canActivate(context('list'))).rejects.toBeInstanceOf(
+      PermissionDeniedException,
+    );
+    await grant('u1', 'reports.read');
+    await expect(guard.canActivate(context('list'))).resolves.toBe(true);
+  });
+
+  it('falls back to the permission strategy without requirements', async () => {
+    await expect(guard.canActivate(context('closed', OpenController))).rejects.toBeInstanceOf(
+      PermissionDeniedException,
+    );
+    await expect(guard.canActivate(context('open', OpenController))).resolves.toBe(true);
+
+    services.configService.getConfig().permissions.permissionStrategy = 'blacklist';
+    await expect(guard.canActivate(context('closed', OpenController))).resolves.toBe(true);
+  });
+
+  it('audits denials of routes without requirements', async () => {
+    await guard.canActivate(context('closed', OpenController)).catch(() => undefined);
+    await guard.canActivate(context('open', OpenController));
+
+    const checks = await dataSource.getRepository(AuditLogEntity).find({
+      where: { action: 'check' },
+    });
+    expect(checks).toHaveLength(1);
+    expect(checks[0]).toMatchObject({
+      result: false,
+      metadata: expect.objectContaining({
+        decision: expect.objectContaining({ reason: 'strategy' }),
+      }),
+    });
+  });
+
+  it('keeps the permission model out of generic denials', async () => {
+    services.configService.getConfig().permissions.errorDetail = 'generic';
+    const error = await guard.canActivate(context('export')).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PermissionDeniedException);
+    expect(error.getStatus()).toBe(403);
+    expect(error.getResponse()).toEqual({
+      message: 'Insufficient permissions',
+      errorCode: 'PERMISSION_DENIED',
+    });
+  });
+
+  it('lets anyone through public routes', async () => {
+    const login = createHttpContext({ path: '/auth/login', method: 'POST' });
+    await expect(guard.canActivate(login)).resolves.toBe(true);
+  });
+
+  it('requires an authenticated user', async () => {
+    await expect(guard.canActivate(context('list', ReportsController, ''))).rejects.toBeInstanceOf(
+      AuthenticationRequiredException,
+    );
+  });
+
+  describe('route rules', () => {
+    const request = (path: string, route: string | null = path) =>
+      createHttpContext({ path, route, method: 'GET', user: { id: 'u1' } });
+
+    beforeEach(async () => {
+      const { permissionService } = services;
+      await permissionService.createRouterPermission(
+        { route: '/admin/**', method: 'GET', permission: 'admin.access' },
+        'test',
+      );
+      await permissionService.createRouterPermission(
+        { route: '/admin/users', method: 'GET', permission: 'users.read' },
+        'test',
+      );
+    });
+
+    it('applies the rules of every matching pattern', async () => {
+      await grant('u1', 'users.read');
+      await expect(guard.canActivate(request('/admin/users'))).rejects.toBeInstanceOf(
+        PermissionDeniedException,
+      );
+
+      await grant('u1', 'admin.access');
+      await expect(guard.canActivate(request('/admin/users'))).resolves.toBe(true);
+    });
+
+    it('matches request paths case-insensitively', async () => {
+      // Unmatched paths would be allowed
+      services.configService.getConfig().permissions.permissionStrategy = 'blacklist';
+      await grant('u1', 'users.read');
+      await expect(guard.canActivate(request('/ADMIN/Users'))).rejects.toBeInstanceOf(
+        PermissionDeniedException,
+      );
+    });
+
+    it('falls back to the request path without a matched route', async () => {
+      await grant('u1', 'users.read');
+      await expect(guard.canActivate(request('/admin/users', null))).rejects.toBeInstanceOf(
+        PermissionDeniedException,
+      );
+    });
+  });
+
+  describe('GraphQL resolvers', () => {
+    // Resolver arguments are (root, args, context, info)
+    const resolve = (parentType: string, fieldName: string, gqlContext: any, handler = fieldName) =>
+      createTransportContext(
+        'graphql',
+        [{}, {}, gqlContext, { parentType: { name: parentType }, fieldName }],
+        { controller: ReportsResolver, handler },
+      );
+
+    it('checks resolver permissions for the user on the GraphQL request', async () => {
+      const query = resolve('Query', 'reports', { req: { user: { id: 'u1' } } });
+      await expect(guard.canActivate(query)).rejects.toBeInstanceOf(PermissionDeniedException);
+
+      await grant('u1', 'reports.read');
+      await expect(guard.canActivate(query)).resolves.toBe(true);
+      await expect(
+        guard.canActivate(resolve('Mutation', 'exportReport', { req: { user: { id: 'u1' } } })),
+      ).rejects.toBeInstanceOf(PermissionDeniedException);
+    });
+
+    it('reads the user from contexts without a request', async () => {
+      await grant('u1', 'reports.read');
+      await expect(
+        guard.canActivate(resolve('Query', 'reports', { user: { id: 'u1' } })),
+      ).resolves.toBe(true);
+      await expect(guard.canActivate(resolve('Query', 'reports', {}))).rejects.toBeInstanceOf(
+        AuthenticationRequiredException,
+      );
+    });
+
+    it('applies route rules keyed by parent type and field', async () => {
+      await services.permissionService.createRouterPermission(
+        { route: 'Report.owner', method: 'GRAPHQL', permission: 'users.read' },
+        'test',
+      );
+      await grant('u1', 'reports.read');
+      const field = resolve('Report', 'owner', { req: { user: { id: 'u1' } } });
+
+      await expect(guard.canActivate(field)).rejects.toBeInstanceOf(PermissionDeniedException);
+      await grant('u1', 'users.read');
+      await expect(guard.canActivate(field)).resolves.toBe(true);
+    });
+
+    it('lets unprotected fields inherit the decision of their operation', async () => {
+      await grant('u1', 'reports.read');
+      const field = createTransportContext(
+        'graphql',
+        [
+          {},
+          {},
+          { req: { user: { id: 'u1' } } },
+          { parentType: { name: 'Report' }, fieldName: 'title' },
+        ],
+        { controller: OpenController, handler: 'closed' },
+      );
+
+      // Whitelist would reject an unprotected query
+      await expect(guard.canActivate(field)).resolves.toBe(true);
+    });
+  });
+
+  describe('gateways and microservices', () => {
+    beforeEach(async () => {
+      const { permissionService } = services;
+      await permissionService.createRouterPermission(
+        { route: 'chat.message', method: 'WS', permission: 'users.read' },
+        'test',
+      );
+      await permissionService.createRouterPermission(
+        { route: 'orders.created', method: 'RPC', permission: 'reports.read' },
+        'test',
+      );
+      await permissionService.createRouterPermission(
+        { route: '{"cmd":"sum"}', method: 'RPC', permission: 'reports.export' },
+        'test',
+      );
+    });
+
+    const message = (client: any, event = 'chat.message') =>
+      createTransportContext('ws', [client, { text: 'hi' }], {
+        controller: MessagesHandler,
+        pattern: event,
+      });
+
+    it('authorizes gateway events by name and audits the check', async () => {
+      await expect(guard.canActivate(message({ user: { id: 'u1' } }))).resolves.toBe(false);
+      await grant('u1', 'users.read');
+      await expect(guard.canActivate(message({ handshake: { user: { id: 'u1' } } }))).resolves.toBe(
+        true,
+      );
+
+      const checks = await dataSource.getRepository(AuditLogEntity).find({
+        where: { action: 'check', target: 'chat.message' },
+      });
+      expect(checks.map((entry) => entry.result).sort()).toEqual([false, true]);
+    });
+
+    it('rejects anonymous clients without throwing', async () => {
+      await expect(guard.canActivate(message({}))).resolves.toBe(false);
+    });
+
+    it('authorizes messages by subject or pattern', async () => {
+      guard = createTestGuard(services, {
+        transports: { rpc: { userResolver: (ctx) => ctx.switchToRpc().getContext().user } },
+      });
+      await grant('u1', 'reports.read');
+      const user = { id: 'u1' };
+      const nats = createTransportContext(
+        'rpc',
+        [{}, { user, getSubject: () => 'orders.created' }],
+        { controller: MessagesHandler },
+      );
+      const tcp = createTransportContext('rpc', [{}, { user }], {
+        controller: MessagesHandler,
+        handler: 'sum',
+      });
+
+      await expect(guard.canActivate(nats)).resolves.toBe(true);
+      await expect(guard.canActivate(tcp)).resolves.toBe(false);
+      await grant('u1', 'reports.export');
+      await expect(guard.canActivate(tcp)).resolves.toBe(true);
+    });
+
+    it('does not take the message user from its data', async () => {
+      await grant('u1', 'reports.read');
+      const spoofed = () =>
+        createTransportContext(
+          'rpc',
+          [{ user: { id: 'u1' } }, { getSubject: () => 'orders.created' }],
+          {
+            controller: MessagesHandler,
+          },
+        );
+
+      await expect(guard.canActivate(spoofed())).resolves.toBe(false);
+      guard = createTestGuard(services, {
+        userResolver: (ctx) => ctx.switchToRpc().getData().user,
+      });
+      await expect(guard.canActivate(spoofed())).resolves.toBe(false);
+    });
+
+    it('resolves users per transport', async () => {
+      await grant('u2', 'users.read');
+      guard = createTestGuard(services, {
+        userResolver: () => ({ id: 'u1' }),
+        transports: { ws: { userResolver: (ctx) => ctx.switchToWs().getClient().data.user } },
+      });
+
+      await expect(guard.canActivate(message({ data: { user: { id: 'u2' } } }))).resolves.toBe(
+        true,
+      );
+    });
+  });
+
+  describe('policies', () => {
+    const ownerCondition = { field: 'resource.ownerId', operator: 'eq', valueFrom: 'user.id' };
+
+    beforeEach(async () => {
+      await seedPermissions(dataSource, ['orders.update']);
+      await services.policyEvaluator.createPolicy(
+        { permission: 'orders.update', name: 'owner', conditions: ownerCondition as any },
+        'test',
+      );
+      await grant('u1', 'orders.update');
+    });
+
+    const update = (handler: string, options: { body?: any; params?: any } = {}) =>
+      createHttpContext({
+        controller: OrdersController,
+        handler,
+        path: '/orders',
+        method: 'PATCH',
+        user: { id: 'u1' },
+        ...options,
+      });
+
+    it('requires the policy permission before evaluating conditions', async () => {
+      await services.permissionService.revokePermission('u1', 'orders.update', 'test');
+      await expect(
+        guard.canActivate(update('update', { body: { ownerId: 'u1' } })),
+      ).rejects.toMatchObject({ response: { missingPermissions: ['orders.update'] } });
+    });
+
+    it('evaluates conditions against the request body and audits the failed one', async () => {
+      await expect(guard.canActivate(update('update', { body: { ownerId: 'u1' } }))).resolves.toBe(
+        true,
+      );
+      await expect(
+        guard.canActivate(update('update', { body: { ownerId: 'u2' } })),
+      ).rejects.toBeInstanceOf(PermissionDeniedException);
+
+      const denied = await dataSource.getRepository(AuditLogEntity).findOne({
+        where: { action: 'check', result: false, target: '/orders' },
+      });
+      expect(denied?.metadata).toMatchObject({
+        policy: 'owner',
+        failedCondition: ownerCondition,
+      });
+    });
+
+    it('loads the resource through a loader provider', async () => {
+      guard = createTestGuard(services, {}, new Map([[OrderLoader, new OrderLoader()]]));
+
+      await expect(guard.canActivate(update('updateById', { params: { id: '1' } }))).resolves.toBe(
+        true,
+      );
+      await expect(
+        guard.canActivate(update('updateById', { params: { id: '2' } })),
+      ).rejects.toBeInstanceOf(PermissionDeniedException);
+    });
+  });
+
+  describe('tenants', () => {
+    const invoices = (userId: string, tenantId?: string) =>
+      createHttpContext({
+        path: '/invoices',
+        user: { id: userId },
+        headers: tenantId ? { 'x-tenant-id': tenantId } : {},
+      });
+
+    beforeEach(async () => {
+      services.configService.getConfig().permissions.tenant = { source: 'header' };
+      const { permissionService } = services;
+      await permissionService.createRouterPermission(
+        { route: '/invoices', method: 'GET', permission: 'reports.read' },
+        'test',
+      );
+      await permissionService.createRouterPermission(
+        { route: '/invoices', method: 'GET', permission: 'reports.export', tenantId: 'acme' },
+        'test',
+      );
+    });
+
+    it('adds the tenant rules to the global ones', async () => {
+      await grant('u1', 'reports.read');
+
+      await expect(guard.canActivate(invoices('u1'))).resolves.toBe(true);
+      await expect(guard.canActivate(invoices('u1', 'globex'))).resolves.toBe(true);
+      await expect(guard.canActivate(invoices('u1', 'acme'))).rejects.toMatchObject({
+        response: { missingPermissions: ['reports.export'] },
+      });
+    });
+
+    it('keeps the global rules when a tenant is named', async () => {
+      await services.permissionService.bulkGrant(
+        [{ userId: 'u1', permission: 'reports.export', tenantId: 'acme' }],
+        'test',
+      );
+
+      // The tenant rule is satisfied, the global rule is not
+      await expect(guard.canActivate(invoices('u1', 'acme'))).rejects.toMatchObject({
+        response: { missingPermissions: ['reports.read'] },
+      });
+    });
+
+    it('only grants tenant permissions inside the tenant', async () => {
+      await services.permissionService.bulkGrant(
+        [
+          { userId: 'u1', permission: 'reports.read', tenantId: 'acme' },
+          { userId: 'u1', permission: 'reports.export', tenantId: 'acme' },
+        ],
+        'test',
+      );
+
+      await expect(guard.canActivate(invoices('u1', 'acme'))).resolves.toBe(true);
+      await expect(guard.canActivate(invoices('u1', 'globex'))).rejects.toBeInstanceOf(
+        PermissionDeniedException,
+      );
+      await expect(guard.canActivate(invoices('u1'))).rejects.toBeInstanceOf(
+        PermissionDeniedException,
+      );
+    });
+
+    it('requires tenant rules whatever the handler strategy', async () => {
+      await services.permissionService.createRouterPermission(
+        { route: '/exportAny', method: 'GET', permission: 'users.read', tenantId: 'acme' },
+        'test',
+      );
+      await grant('u1', 'reports.read', 'reports.export');
+      const exportAny = (tenantId: string) =>
+        createHttpContext({
+          controller: ReportsController,
+          handler: 'exportAny',
+          path: '/exportAny',
+          user: { id: 'u1' },
+          headers: { 'x-tenant-id': tenantId },
+        });
+
+      await expect(guard.canActivate(exportAny('globex'))).resolves.toBe(true);
+      await expect(guard.canActivate(exportAny('acme'))).rejects.toMatchObject({
+        response: { missingPermissions: ['users.read'] },
+      });
+    });
+  });
+});
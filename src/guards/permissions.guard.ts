@@ -1,11 +1,59 @@
-import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
+import { Injectable, CanActivate, ExecutionContext, Inject, Optional } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
 import { PermissionService } from '../services/permission.service';
-import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { RouterPermissionEntity } from '../models/router-permission.entity';
 import { ConfigService } from '../services/config.service';
-import { UserPermissionEntity } from '../models/user-permission.entity';
+import { AuditService } from '../services/audit.service';
+import { PolicyEvaluatorService } from '../services/policy-evaluator.service';
+import {
+  ADMIN_ROLE_KEY,
+  CHECK_POLICY_KEY,
+  PERMISSIONS_KEY,
+  PERMISSIONS_MODULE_OPTIONS,
+  PERMISSION_DECISION_HEADER,
+  PERMISSION_OPTIONS_KEY,
+} from '../constants';
+import { PermissionDecision, PermissionOptions } from '../interfaces/permission.interface';
+import {
+  ExecutionTransport,
+  PermissionsModuleOptions,
+} from '../interfaces/module-options.interface';
+import { CheckPolicyMetadata } from '../interfaces/policy.interface';
+import { TenantExtractor } from '../utils/tenant.util';
+import {
+  AuthenticationRequiredException,
+  PermissionDeniedException,
+} from '../exceptions/permission.exceptions';
+
+interface AuthorizationTarget {
+  transport: ExecutionTransport;
+  user: any;
+  // Route pattern or resolver key used in audit entries
+  route: string;
+  // Concrete value matched against route rules
+  path: string;
+  method: string;
+  // GraphQL field resolvers only enforce rules that target them
+  isField: boolean;
+  // Transport request and the body, resolver arguments or message data
+  request: any;
+  payload: any;
+}
+
+// Root operation types, everything else is resolved as a field of a parent object
+const GRAPHQL_ROOT_TYPES = ['Query', 'Mutation', 'Subscription'];
+
+// Metadata key set by @MessagePattern and @EventPattern
+const MESSAGE_PATTERN_METADATA = 'microservices:pattern';
+
+interface AuthorizedRequest {
+  // Id the request was authorized for, none on public routes
+  userId?: string;
+  handlers: Set<object>;
+}
+
+// HTTP requests already allowed, with the handlers they were allowed for. Shared by every guard
+// instance, as APP_GUARD and a controller's @UseGuards(PermissionsGuard) each get their own
+const authorizedRequests = new WeakMap<object, AuthorizedRequest>();
 
 @Injectable()
 export class PermissionsGuard implements CanActivate {
@@ -13,76 +61,398 @@ export class PermissionsGuard implements CanActivate {
     private readonly reflector: Reflector,
     private readonly permissionService: PermissionService,
     private readonly configService: ConfigService,
-    @InjectRepository(RouterPermissionEntity)
-    private readonly routerPermissionRepository: Repository<RouterPermissionEntity>,
-    @InjectRepository(UserPermissionEntity)
-    private readonly userPermissionRepository: Repository<UserPermissionEntity>,
+    private readonly auditService: AuditService,
+    private readonly policyEvaluator: PolicyEvaluatorService,
+    private readonly moduleRef: ModuleRef,
+    @Optional()
+    @Inject(PERMISSIONS_MODULE_OPTIONS)
+    private readonly moduleOptions: PermissionsModuleOptions = {},
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
-    const request = context.switchToHttp().getRequest();
-    const user = request.user;
+    const target = this.getAuthorizationTarget(context);
 
-    if (!user) {
-      return false;
+    // APP_GUARD and a controller's @UseGuards(PermissionsGuard) both run for the same request,
+    // other transports reuse their client or context object across messages
+    const handler = context.getHandler();
+    const authorized =
+      target.transport === 'http' ? authorizedRequests.get(target.request) : undefined;
+    if (authorized?.handlers.has(handler)) {
+      return true;
     }
 
-    // Get route and method
-    const route = request.route.path;
-    const method = request.method.toLowerCase();
+    const user = this.resolveUser(context, target);
+    const userId = user ? this.getUserId(user) : undefined;
+    const allowed = await this.authorize(context, target, user, userId);
+    if (allowed && target.transport === 'http') {
+      authorizedRequests.set(target.request, {
+        userId,
+        handlers: new Set([...(authorized?.handlers || []), handler]),
+      });
+    }
+    return allowed;
+  }
+
+  /**
+   * Returns the id an HTTP request was authorized for, as resolved by `userResolver` and
+   * `userIdExtractor`, so handlers act for the same user the guard checked.
+   */
+  getAuthorizedUserId(request: object): string | undefined {
+    return authorizedRequests.get(request)?.userId;
+  }
 
-    // Check if it's a public route
+  private async authorize(
+    context: ExecutionContext,
+    target: AuthorizationTarget,
+    user: any,
+    userId: string | undefined,
+  ): Promise<boolean> {
+    const { route, path, method, isField } = target;
+
+    // Public routes need no authenticated user
     const config = this.configService.getConfig();
-    if (config.permissions.publicRoutes.includes(route)) {
+    if (this.permissionService.isPublicRoute(path, method)) {
+      this.exposeDecision(context, target, { allowed: true, reason: 'public' });
       return true;
     }
 
-    // Get route permissions from database
-    const routerPermissions = await this.routerPermissionRepository
-      .createQueryBuilder('rp')
-      .innerJoin('permissions', 'p', 'p.id = rp.permission_id')
-      .select(['rp.id', 'rp.route', 'rp.method', 'rp.permission_id', 'p.name'])
-      .where('rp.route = :route', { route })
-      .andWhere('rp.method = :method', { method })
-      .andWhere('rp.is_active = :isActive', { isActive: true })
-      .getMany();
+    if (!userId) {
+      return this.rejectAnonymous(target);
+    }
+
+    // Only the current tenant's grants and route restrictions are evaluated
+    const tenantId = this.resolveTenant(context, target, user);
+
+    // Read @RequirePermission metadata from the handler and its controller
+    const targets = [context.getHandler(), context.getClass()];
+    const decoratorPermissions =
+      this.reflector.getAllAndMerge<string[]>(PERMISSIONS_KEY, targets) || [];
+    const options = this.getPermissionOptions(context);
+    const policy = this.reflector.getAllAndOverride<CheckPolicyMetadata>(CHECK_POLICY_KEY, targets);
+
+    // Routes marked with @RequireAdminRole need the configured admin role first
+    const requiresAdminRole = this.reflector.getAllAndOverride<boolean>(ADMIN_ROLE_KEY, targets);
+    if (requiresAdminRole) {
+      const isAdmin = await this.permissionService.hasRole(
+        userId,
+        config.permissions.adminRole,
+        tenantId,
+      );
+      if (!isAdmin) {
+        this.exposeDecision(context, target, {
+          allowed: false,
+          reason: 'missing',
+          role: config.permissions.adminRole,
+        });
+        await this.auditService.logPermissionCheck(userId, route, false, {
+          method,
+          requiredRole: config.permissions.adminRole,
+          tenantId,
+        });
+        return this.reject(target, userId, [`role:${config.permissions.adminRole}`], {
+          reason: 'missing',
+          role: config.permissions.adminRole,
+        });
+      }
+    }
+
+    // Match the concrete request path against the compiled route rules, the service decides
+    // exactly as checkRoutePermission() and explain() do
+    const { tokenPermissions: tokenOptions } = this.moduleOptions;
+    const { decision, requiredPermissions } = await this.permissionService.decideRoute(
+      userId,
+      path,
+      method,
+      {
+        ...options,
+        tenantId,
+        requiredPermissions: [...decoratorPermissions, ...(policy ? [policy.permission] : [])],
+        // Admin routes and field resolvers are already guarded by the role and their operation
+        fallback: requiresAdminRole || isField ? 'allow' : options.fallback,
+        grantedPermissions: this.getTokenPermissions(user),
+        verifyGrants: typeof tokenOptions === 'object' && tokenOptions.verify,
+      },
+    );
 
-    // If no permissions are defined, check permission strategy
-    if (routerPermissions.length === 0) {
-      if (config.permissions.permissionStrategy === 'blacklist') {
+    // Routes nothing is required for are only audited when the strategy denies them
+    if (decision.reason === 'strategy') {
+      this.exposeDecision(context, target, decision, requiredPermissions);
+      if (decision.allowed) {
         return true;
       }
-      return false; // If whitelist strategy and no permissions defined, deny access
+      await this.auditService.logPermissionCheck(userId, route, false, {
+        method,
+        strategy: options.strategy || 'AND',
+        requiredPermissions,
+        tenantId,
+        decision,
+      });
+      return this.reject(target, userId, [], { reason: 'strategy' });
+    }
+
+    if (decision.allowed && policy) {
+      return this.checkPolicy(context, target, user, userId, policy, requiredPermissions, tenantId);
     }
 
-    // Get user's permissions from database
-    const userPermissions = await this.userPermissionRepository
-      .createQueryBuilder('up')
-      .innerJoin('permissions', 'p', 'p.id = up.permission_id')
-      .select(['up.permission_id', 'p.name'])
-      .where('up.user_id = :userId', { userId: user.id })
-      .andWhere('up.is_active = :isActive', { isActive: true })
-      .getMany();
+    this.exposeDecision(context, target, decision, requiredPermissions);
 
-    // Check if user has all required permissions
-    const hasPermissions = routerPermissions.every((rp) =>
-      userPermissions.some((up) => up.permission_id === rp.permission_id),
+    await this.auditService.logPermissionCheck(userId, route, decision.allowed, {
+      method,
+      strategy: options.strategy || 'AND',
+      requiredPermissions,
+      tenantId,
+      decision,
+    });
+
+    return (
+      decision.allowed ||
+      this.reject(target, userId, decision.missingPermissions || [], {
+        reason: decision.reason,
+        permission: decision.permission,
+        role: decision.role,
+        routeRuleId: decision.routeRuleId,
+      })
     );
+  }
 
-    // Log the permission check if audit service is available
-    if (this.permissionService['auditService']) {
-      await this.permissionService['auditService'].logPermissionCheck(
-        user.id,
-        route,
-        hasPermissions,
-        {
-          method,
-          requiredPermissions: routerPermissions.map((rp) => rp.permission_id),
-          userPermissions: userPermissions.map((up) => up.permission_id),
-        },
-      );
+  private async checkPolicy(
+    context: ExecutionContext,
+    target: AuthorizationTarget,
+    user: any,
+    userId: string,
+    policy: CheckPolicyMetadata,
+    requiredPermissions: string[],
+    tenantId?: string,
+  ): Promise<boolean> {
+    // Resolve the resource the policy conditions are evaluated against
+    let resource: unknown = target.payload;
+    if (policy.loader) {
+      const loader = this.moduleRef.get(policy.loader, { strict: false });
+      resource = await loader.load(target.request, context);
+    } else if (policy.resource) {
+      resource = await policy.resource(target.request, context);
+    }
+
+    const result = await this.policyEvaluator.checkPolicies(policy.permission, {
+      user,
+      resource,
+      request: target.request,
+    });
+
+    await this.auditService.logPermissionCheck(userId, target.route, result.allowed, {
+      method: target.method,
+      requiredPermissions,
+      tenantId,
+      permission: policy.permission,
+      ...(result.allowed ? {} : { policy: result.policy, failedCondition: result.failedCondition }),
+    });
+
+    this.exposeDecision(
+      context,
+      target,
+      {
+        allowed: result.allowed,
+        reason: result.allowed ? 'granted' : 'policy',
+        permission: policy.permission,
+      },
+      requiredPermissions,
+    );
+    return (
+      result.allowed ||
+      this.reject(target, userId, [], {
+        reason: 'policy',
+        permission: policy.permission,
+        policy: result.policy,
+      })
+    );
+  }
+
+  private rejectAnonymous(target: AuthorizationTarget): false {
+    // Gateways and microservices keep their transport's own forbidden error
+    if (target.transport === 'ws' || target.transport === 'rpc') {
+      return false;
+    }
+    throw new AuthenticationRequiredException();
+  }
+
+  private reject(
+    target: AuthorizationTarget,
+    userId: string,
+    missingPermissions: string[],
+    metadata: Record<string, any>,
+  ): false {
+    if (target.transport === 'ws' || target.transport === 'rpc') {
+      return false;
+    }
+    const { errorDetail } = this.configService.getConfig().permissions;
+    throw new PermissionDeniedException(missingPermissions, userId, metadata, errorDetail);
+  }
+
+  private exposeDecision(
+    context: ExecutionContext,
+    target: AuthorizationTarget,
+    decision: PermissionDecision,
+    requiredPermissions: string[] = [],
+  ): void {
+    // The header discloses the permission model, so it is never sent in production
+    const { decisionHeader } = this.configService.getConfig().permissions;
+    if (!decisionHeader || process.env.NODE_ENV === 'production' || target.transport !== 'http') {
+      return;
+    }
+
+    const parts = [decision.allowed ? 'allow' : 'deny', `reason=${decision.reason}`];
+    if (decision.permission) parts.push(`permission=${decision.permission}`);
+    if (decision.role) parts.push(`role=${decision.role}`);
+    if (decision.routeRuleId !== undefined) parts.push(`rule=${decision.routeRuleId}`);
+    if (requiredPermissions.length > 0) parts.push(`required=${requiredPermissions.join(',')}`);
+
+    // Express responses expose setHeader, Fastify replies header
+    const response = context.switchToHttp().getResponse();
+    if (typeof response?.setHeader === 'function') {
+      response.setHeader(PERMISSION_DECISION_HEADER, parts.join('; '));
+    } else {
+      response?.header?.(PERMISSION_DECISION_HEADER, parts.join('; '));
+    }
+  }
+
+  private getAuthorizationTarget(context: ExecutionContext): AuthorizationTarget {
+    const type = context.getType<string>();
+
+    if (type === 'graphql') {
+      // Resolver arguments are (root, args, context, info)
+      const [, , gqlContext, info] = context.getArgs();
+      const parentType = info.parentType.name;
+      const key = `${parentType}.${info.fieldName}`;
+
+      return {
+        transport: 'graphql',
+        user: gqlContext?.req?.user ?? gqlContext?.user,
+        route: key,
+        path: key,
+        method: 'graphql',
+        isField: !GRAPHQL_ROOT_TYPES.includes(parentType),
+        request: gqlContext?.req ?? gqlContext,
+        payload: context.getArgs()[1],
+      };
+    }
+
+    if (type === 'ws') {
+      // Gateway rules are keyed by the subscribed event name
+      const ws = context.switchToWs();
+      const client = ws.getClient();
+      const event = ws.getPattern();
+
+      return {
+        transport: 'ws',
+        user: client?.user ?? client?.request?.user ?? client?.handshake?.user,
+        route: event,
+        path: event,
+        method: 'ws',
+        isField: false,
+        request: client,
+        payload: ws.getData(),
+      };
+    }
+
+    if (type === 'rpc') {
+      // Microservice rules are keyed by the message pattern
+      const rpc = context.switchToRpc();
+      const pattern = this.getMessagePattern(context);
+
+      // The message data is whatever the sender chose, the user only comes from a resolver
+      return {
+        transport: 'rpc',
+        user: undefined,
+        route: pattern,
+        path: pattern,
+        method: 'rpc',
+        isField: false,
+        request: rpc.getContext(),
+        payload: rpc.getData(),
+      };
+    }
+
+    // Get route pattern, concrete path and method, middleware-level guards have no route yet
+    const request = context.switchToHttp().getRequest();
+    const route = request.route?.path ?? request.path;
+
+    return {
+      transport: 'http',
+      user: request.user,
+      route,
+      path: request.path || route,
+      method: request.method.toLowerCase(),
+      isField: false,
+      request,
+      payload: request.body,
+    };
+  }
+
+  private resolveUser(context: ExecutionContext, target: AuthorizationTarget): any {
+    // A global resolver reading the HTTP request would get the message data over RPC
+    const resolver =
+      this.moduleOptions.transports?.[target.transport]?.userResolver ||
+      (target.transport === 'rpc' ? undefined : this.moduleOptions.userResolver);
+    return resolver ? resolver(context) : target.user;
+  }
+
+  private getUserId(user: any): string | undefined {
+    const id = this.moduleOptions.userIdExtractor
+      ? this.moduleOptions.userIdExtractor(user)
+      : user.id;
+    return id === undefined || id === null || id === '' ? undefined : String(id);
+  }
+
+  private getTokenPermissions(user: any): string[] | undefined {
+    const { tokenPermissions } = this.moduleOptions;
+    if (!tokenPermissions) {
+      return undefined;
     }
 
-    return hasPermissions;
+    const claim = (typeof tokenPermissions === 'object' && tokenPermissions.claim) || 'permissions';
+    const value = user[claim];
+    // Space separated claims follow the OAuth `scope` format
+    if (typeof value === 'string') {
+      return value.split(' ').filter(Boolean);
+    }
+    return Array.isArray(value) ? value.map(String) : undefined;
+  }
+
+  private resolveTenant(
+    context: ExecutionContext,
+    target: AuthorizationTarget,
+    user: any,
+  ): string | undefined {
+    if (this.moduleOptions.tenantResolver) {
+      return this.moduleOptions.tenantResolver(context, user) || undefined;
+    }
+
+    const tenant = this.configService.getConfig().permissions.tenant;
+    return tenant ? TenantExtractor.extract(tenant, target.request, user) : undefined;
+  }
+
+  private getMessagePattern(context: ExecutionContext): string {
+    // TCP contexts expose the pattern, NATS contexts the subject
+    const rpcContext = context.switchToRpc().getContext();
+    const pattern =
+      rpcContext?.getPattern?.() ??
+      rpcContext?.getSubject?.() ??
+      this.reflector.get<unknown[]>(MESSAGE_PATTERN_METADATA, context.getHandler())?.[0];
+
+    return typeof pattern === 'string' ? pattern : JSON.stringify(pattern);
+  }
+
+  private getPermissionOptions(context: ExecutionContext): PermissionOptions {
+    // Handler options take precedence over controller options
+    const classOptions = this.reflector.get<PermissionOptions>(
+      PERMISSION_OPTIONS_KEY,
+      context.getClass(),
+    );
+    const handlerOptions = this.reflector.get<PermissionOptions>(
+      PERMISSION_OPTIONS_KEY,
+      context.getHandler(),
+    );
+
+    return { ...classOptions, ...handlerOptions };
   }
 }
@@ -4,12 +4,21 @@ export * from './interfaces/user.interface';
 export * from './interfaces/router.interface';
 export * from './interfaces/config.interface';
 export * from './interfaces/security.interface';
+export * from './interfaces/role.interface';
+export * from './interfaces/cache.interface';
+export * from './interfaces/policy.interface';
+export * from './interfaces/module-options.interface';
 
 // Models
 export * from './models/permission.entity';
 export * from './models/router-permission.entity';
 export * from './models/user-permission.entity';
 export * from './models/audit-log.entity';
+export * from './models/role.entity';
+export * from './models/role-permission.entity';
+export * from './models/user-role.entity';
+export * from './models/role-inheritance.entity';
+export * from './models/permission-policy.entity';
 
 // Services
 export * from './services/config.service';
@@ -20,22 +29,53 @@ export * from './services/audit.service';
 export * from './services/config-publisher.service';
 export * from './services/security-config-publisher.service';
 export * from './services/migration-generator.service';
+export * from './services/permission-expiry.service';
+export * from './services/permission-cache.service';
+export * from './services/policy-evaluator.service';
+
+// Exceptions
+export * from './exceptions/permission.exceptions';
 
 // Guards
 export * from './guards/permissions.guard';
 
 // Decorators
 export * from './decorators/require-permission.decorator';
+export * from './decorators/require-admin-role.decorator';
+export * from './decorators/check-policy.decorator';
+
+// Admin API
+export * from './controllers/permissions-admin.controller';
+export * from './dto/permission.dto';
+export * from './dto/router-permission.dto';
+export * from './dto/grant.dto';
+export * from './dto/role.dto';
+export * from './dto/audit-log-query.dto';
+export * from './dto/explain-query.dto';
+export * from './dto/policy.dto';
+export * from './pipes/dto-validation.pipe';
 
 // Modules
 export * from './modules/config.module';
 export * from './modules/permissions.module';
+export * from './modules/permissions-admin.module';
 
 // Configuration
 export * from './config/default-config';
 
 // Utilities
 export * from './utils/query-builder.util';
+export * from './utils/route-matcher.util';
+export * from './utils/public-route.util';
+export * from './utils/dto-validator.util';
+export * from './utils/tenant.util';
+export * from './utils/entity-mapping.util';
+export * from './utils/sql-dialect.util';
+export * from './utils/config-loader.util';
+
+// Cache stores
+export * from './cache/memory-cache.store';
+export * from './cache/redis-cache.store';
 
 // Re-export TypeORM to ensure version compatibility
 export {
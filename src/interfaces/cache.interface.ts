@@ -0,0 +1,28 @@
+export type CacheInvalidationScope =
+  | 'user'
+  | 'users'
+  | 'roles'
+  | 'hierarchy'
+  | 'routes'
+  | 'policies'
+  | 'all';
+
+export interface CacheInvalidationEvent {
+  scope: CacheInvalidationScope;
+  userId?: string;
+}
+
+export type CacheInvalidationListener = (event: CacheInvalidationEvent) => void | Promise<void>;
+
+export interface PermissionCacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<void>;
+  clear(): Promise<void>;
+  /** Notifies the other instances, the listeners of the publishing instance are not called */
+  publish(event: CacheInvalidationEvent): Promise<void>;
+  /** Listens to the events published by other instances */
+  subscribe(listener: CacheInvalidationListener): () => void;
+  close?(): Promise<void>;
+}
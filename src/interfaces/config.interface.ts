@@ -1,4 +1,6 @@
 import { SecurityConfig } from './security.interface';
+import { HttpMethod } from './router.interface';
+import { RoleHierarchy } from './role.interface';
 
 export interface EntityConfig {
   tableName: string;
@@ -13,14 +15,46 @@ export interface DatabaseConfig {
     permissions: EntityConfig;
     routerPermissions: EntityConfig;
     userPermissions: EntityConfig;
+    roles: EntityConfig;
+    rolePermissions: EntityConfig;
+    userRoles: EntityConfig;
+    roleInheritance: EntityConfig;
+    permissionPolicies: EntityConfig;
   };
 }
 
+// Table and column overrides, missing names keep the entity defaults
+export type EntityMappings = {
+  [K in keyof DatabaseConfig['entities']]?: Partial<EntityConfig>;
+};
+
+export interface PublicRouteConfig {
+  path: string | RegExp;
+  methods?: HttpMethod[];
+}
+
+export type PublicRoute = string | RegExp | PublicRouteConfig;
+
+export interface TenantConfig {
+  source: 'header' | 'subdomain' | 'claim';
+  // Header name or user claim, defaults to `x-tenant-id` and `tenantId`
+  key?: string;
+}
+
+// How much a permission denied response tells the client
+export type PermissionErrorDetail = 'detailed' | 'generic';
+
 export interface PermissionsConfig {
   defaultRole: string;
   adminRole: string;
-  publicRoutes: string[];
+  publicRoutes: PublicRoute[];
   permissionStrategy: 'whitelist' | 'blacklist';
+  roleHierarchy?: RoleHierarchy;
+  expirySweepInterval?: number; // in seconds, 0 disables the sweeper
+  routeRefreshInterval?: number; // in seconds, 0 refreshes only on invalidation
+  tenant?: TenantConfig;
+  decisionHeader?: boolean; // sends X-Permission-Decision outside production
+  errorDetail?: PermissionErrorDetail; // defaults to 'detailed'
 }
 
 export interface PermissionConfig {
@@ -0,0 +1,102 @@
+import { ExecutionContext, FactoryProvider, ModuleMetadata, Type } from '@nestjs/common';
+import { PermissionCacheStore } from './cache.interface';
+import { DatabaseConfig, EntityMappings, PermissionConfig } from './config.interface';
+import { SecurityConfig } from './security.interface';
+import { RoutePermissionDefault } from './router.interface';
+
+export type ExecutionTransport = 'http' | 'graphql' | 'ws' | 'rpc';
+
+export type UserResolver = (context: ExecutionContext) => any;
+
+export type UserIdExtractor = (user: any) => string | number | undefined;
+
+export type TenantResolver = (context: ExecutionContext, user: any) => string | undefined;
+
+export interface TransportOptions {
+  /** Returns the authenticated user for a request, message or event, never from message data */
+  userResolver?: UserResolver;
+}
+
+export interface TokenPermissionsOptions {
+  /** User property holding the permission names, defaults to `permissions` */
+  claim?: string;
+  /** Also require the database grants to allow the request */
+  verify?: boolean;
+}
+
+/** Shapes the module itself, so it cannot come from an async factory */
+export interface PermissionsModuleRegistration {
+  /**
+   * Installs PermissionsGuard as APP_GUARD for every route, defaults to true.
+   * Without it, apply the guard with `@UseGuards(PermissionsGuard)` where needed.
+   */
+  globalGuard?: boolean;
+  /** Applies SecurityMiddleware (helmet, rate limiting, CORS) to every route, defaults to true */
+  securityMiddleware?: boolean;
+  /** Registers GlobalErrorFilter and ErrorInterceptor, defaults to true */
+  errorHandling?: boolean;
+  /**
+   * Table and column names of existing tables. `register()` defaults to
+   * `config.database.entities`; with `forRootAsync()` they have to be given here.
+   */
+  entities?: EntityMappings;
+  /**
+   * Database the entities are used with, it picks the audit and policy column types.
+   * `register()` defaults to `config.database.type`; with `forRootAsync()` it has to be
+   * given here. Defaults to `postgres`.
+   */
+  databaseType?: DatabaseConfig['type'];
+}
+
+export interface PermissionsModuleOptions extends PermissionsModuleRegistration {
+  /**
+   * Store backing the permission cache. Defaults to an in-process LRU store;
+   * pass a shared store such as RedisCacheStore when running several instances.
+   */
+  cacheStore?: PermissionCacheStore;
+  /** Maximum number of entries kept by the default in-memory store */
+  cacheMaxEntries?: number;
+  /**
+   * Returns the authenticated user, defaults to `request.user` and its gateway equivalents.
+   * Not used for RPC messages, which are denied unless `transports.rpc.userResolver` is set.
+   */
+  userResolver?: UserResolver;
+  /** Reads the id grants are stored under from the user, defaults to `user.id` */
+  userIdExtractor?: UserIdExtractor;
+  /**
+   * Evaluates permissions embedded in the user's token, skipping the database lookup for users
+   * carrying the claim. Users without the claim are checked against the database.
+   */
+  tokenPermissions?: boolean | TokenPermissionsOptions;
+  /** Resolves the current tenant, takes precedence over `permissions.tenant` */
+  tenantResolver?: TenantResolver;
+  /** Per-transport overrides used by PermissionsGuard, they take precedence over the above */
+  transports?: Partial<Record<ExecutionTransport, TransportOptions>>;
+}
+
+/** Everything `PermissionsModule.register()` accepts, as resolved by `forRootAsync()` */
+export interface PermissionsModuleConfig
+  extends Omit<PermissionsModuleOptions, keyof PermissionsModuleRegistration> {
+  config?: Partial<PermissionConfig>;
+  securityConfig?: Partial<SecurityConfig>;
+}
+
+export interface PermissionsOptionsFactory {
+  createPermissionsOptions(): PermissionsModuleConfig | Promise<PermissionsModuleConfig>;
+}
+
+export interface PermissionsModuleAsyncOptions extends PermissionsModuleRegistration {
+  /** Modules exporting the providers listed in `inject` */
+  imports?: ModuleMetadata['imports'];
+  inject?: FactoryProvider['inject'];
+  useFactory?: (...args: any[]) => PermissionsModuleConfig | Promise<PermissionsModuleConfig>;
+  /** Instantiated by the module to create the options */
+  useClass?: Type<PermissionsOptionsFactory>;
+  /** Existing provider, exported by one of `imports`, creating the options */
+  useExisting?: Type<PermissionsOptionsFactory>;
+}
+
+export interface PermissionsFeatureOptions {
+  /** Route rules of the feature, used where no database allow rule matches the request */
+  routes?: RoutePermissionDefault[];
+}
@@ -14,6 +14,100 @@ export interface PermissionOptions {
   cache?: boolean;
 }
 
+export interface PermissionCheckOptions extends PermissionOptions {
+  tenantId?: string;
+}
+
+export type PermissionEffect = 'allow' | 'deny';
+
+export interface PermissionDenial {
+  permission: string;
+  source: 'user' | 'role';
+  // Role holding the deny, possibly inherited by one of the user's roles
+  role?: string;
+}
+
+export type PermissionDecisionReason =
+  | 'granted'
+  | 'missing'
+  | 'user-deny'
+  | 'role-deny'
+  | 'route-deny'
+  | 'public'
+  | 'strategy'
+  | 'policy';
+
+export interface PermissionDecision {
+  allowed: boolean;
+  reason: PermissionDecisionReason;
+  // Permission that decided the result
+  permission?: string;
+  role?: string;
+  routeRuleId?: number;
+  // Every required permission the user does not hold
+  missingPermissions?: string[];
+}
+
+export type PermissionGrantSource = 'direct' | 'role' | 'inherited';
+
+export interface PermissionGrantTrace {
+  permission: string;
+  source: PermissionGrantSource;
+  effect: PermissionEffect;
+  // Role holding the grant and, for inherited grants, the assigned role inheriting it
+  role?: string;
+  viaRole?: string;
+  tenantId?: string;
+  expiresAt?: Date;
+}
+
+export interface RouteRuleTrace {
+  // Missing for rules declared in code
+  id?: number;
+  route: string;
+  method: string;
+  permission: string;
+  effect: PermissionEffect;
+  tenantId?: string;
+}
+
+export interface PermissionExplanation {
+  userId: string;
+  route: string;
+  method: string;
+  tenantId?: string;
+  publicRoute: boolean;
+  permissionStrategy: 'whitelist' | 'blacklist';
+  strategy: 'AND' | 'OR';
+  routeRules: RouteRuleTrace[];
+  requiredPermissions: string[];
+  grants: PermissionGrantTrace[];
+  // Grants and role assignments that would apply had they not expired
+  expiredGrants: PermissionGrantTrace[];
+  decision: PermissionDecision;
+}
+
+export interface CreatePermissionInput {
+  name: string;
+  description?: string;
+  level?: number;
+}
+
+export interface UpdatePermissionInput {
+  name?: string;
+  description?: string;
+  level?: number;
+  is_active?: boolean;
+}
+
+export interface PermissionGrantInput {
+  userId: string;
+  permission: string;
+  expiresAt?: Date;
+  tenantId?: string;
+  effect?: PermissionEffect;
+}
+
 export interface PermissionFieldConfig {
   id: string;
   name: string;
@@ -0,0 +1,86 @@
+import { ExecutionContext, Type } from '@nestjs/common';
+
+export type PolicyOperator =
+  | 'eq'
+  | 'ne'
+  | 'in'
+  | 'nin'
+  | 'contains'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'exists';
+
+/**
+ * Compares the value at `field` with a literal `value` or with the value at `valueFrom`.
+ * Paths are dotted and start with `user`, `resource` or `request`, e.g. `resource.ownerId`.
+ */
+export interface PolicyCondition {
+  field: string;
+  operator: PolicyOperator;
+  value?: unknown;
+  valueFrom?: string;
+}
+
+export type PolicyRule =
+  | PolicyCondition
+  | { all: PolicyRule[] }
+  | { any: PolicyRule[] }
+  | { not: PolicyRule };
+
+export interface PermissionPolicy {
+  id: number;
+  permission_id: number;
+  name: string;
+  description?: string;
+  conditions: PolicyRule;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PermissionPolicyInput {
+  permission: string;
+  name: string;
+  description?: string;
+  conditions: PolicyRule;
+}
+
+export interface PolicyContext {
+  user: any;
+  resource?: any;
+  request?: any;
+}
+
+export interface PolicyEvaluationResult {
+  allowed: boolean;
+  policy?: string;
+  failedCondition?: PolicyRule;
+}
+
+export interface PolicyResourceLoader {
+  load(request: any, context: ExecutionContext): unknown | Promise<unknown>;
+}
+
+export interface CheckPolicyOptions {
+  /** Reads the resource from the request, defaults to the request body or message payload */
+  resource?: (request: any, context: ExecutionContext) => unknown | Promise<unknown>;
+  /** Injectable provider that loads the resource, e.g. from a repository */
+  loader?: Type<PolicyResourceLoader>;
+}
+
+export interface CheckPolicyMetadata extends CheckPolicyOptions {
+  permission: string;
+}
+
+export interface PermissionPolicyFieldConfig {
+  id: string;
+  permission_id: string;
+  name: string;
+  description: string;
+  conditions: string;
+  is_active: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,91 @@
+import { PermissionEffect } from './permission.interface';
+
+export interface Role {
+  id: number;
+  name: string;
+  description: string;
+  level: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateRoleInput {
+  name: string;
+  description?: string;
+  level?: number;
+}
+
+export interface UpdateRoleInput {
+  name?: string;
+  description?: string;
+  level?: number;
+  is_active?: boolean;
+}
+
+export interface RolePermission {
+  id: number;
+  role_id: number;
+  permission_id: number;
+  effect: PermissionEffect;
+  created_at: Date;
+}
+
+export interface UserRole {
+  id: number;
+  user_id: string;
+  role_id: number;
+  granted_at: Date;
+  expires_at?: Date;
+  is_active: boolean;
+  tenant_id?: string;
+}
+
+export interface RoleInheritance {
+  id: number;
+  role_id: number;
+  inherited_role_id: number;
+  created_at: Date;
+}
+
+export interface RoleHierarchy {
+  [role: string]: {
+    level: number;
+    inherits?: string[];
+  };
+}
+
+export interface RoleFieldConfig {
+  id: string;
+  name: string;
+  description: string;
+  level: string;
+  is_active: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RolePermissionFieldConfig {
+  id: string;
+  role_id: string;
+  permission_id: string;
+  effect?: string;
+  created_at: string;
+}
+
+export interface RoleInheritanceFieldConfig {
+  id: string;
+  role_id: string;
+  inherited_role_id: string;
+  created_at: string;
+}
+
+export interface UserRoleFieldConfig {
+  id: string;
+  user_id: string;
+  role_id: string;
+  granted_at: string;
+  expires_at: string;
+  is_active: string;
+  tenant_id?: string;
+}
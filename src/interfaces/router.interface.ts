@@ -1,21 +1,48 @@
+import { PermissionEffect } from './permission.interface';
+
 export interface RouterPermission {
   id: number;
   route: string;
   method: string;
   permission_id: number;
   is_active: boolean;
+  tenant_id?: string;
+  effect: PermissionEffect;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface RouterPermissionInput {
+  route: string;
+  method: RouteMethod;
+  permission: string;
+  tenantId?: string;
+  effect?: PermissionEffect;
+}
+
+// Route rule declared in code, applies to every tenant
+export type RoutePermissionDefault = Omit<RouterPermissionInput, 'tenantId'>;
+
+export interface RouteRulesSnapshot {
+  version: number;
+  loadedAt: Date;
+  rules: number;
+}
+
 export interface RouterPermissionFieldConfig {
   id: string;
   route: string;
   method: string;
   permission_id: string;
   is_active: string;
+  tenant_id?: string;
+  effect?: string;
   created_at: string;
   updated_at: string;
 }
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'OPTIONS' | 'HEAD' | '*';
+
+// GraphQL rules are keyed by `ParentType.field`, gateway rules by event name and
+// microservice rules by message pattern instead of a path
+export type RouteMethod = HttpMethod | 'GRAPHQL' | 'WS' | 'RPC';
@@ -1,3 +1,5 @@
+import { PermissionEffect } from './permission.interface';
+
 export interface UserPermission {
   id: number;
   user_id: string;
@@ -5,6 +7,8 @@ export interface UserPermission {
   granted_at: Date;
   expires_at?: Date;
   is_active: boolean;
+  tenant_id?: string;
+  effect: PermissionEffect;
 }
 
 export interface UserPermissionFieldConfig {
@@ -14,4 +18,6 @@ export interface UserPermissionFieldConfig {
   granted_at: string;
   expires_at: string;
   is_active: string;
+  tenant_id?: string;
+  effect?: string;
 }
@@ -1,4 +1,5 @@
 import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn } from 'typeorm';
+import { AUDIT_ACTIONS } from '../constants';
 
 export type AuditAction = 'check' | 'grant' | 'revoke' | 'modify';
 
@@ -10,9 +11,13 @@ export class AuditLogEntity {
   @Column()
   userId!: string;
 
+  @Column({ nullable: true })
+  tenantId?: string;
+
+  // Declared for PostgreSQL, EntityMapper.applyDialect() switches to the MySQL and SQLite types
   @Column({
     type: 'enum',
-    enum: ['check', 'grant', 'revoke', 'modify'],
+    enum: AUDIT_ACTIONS,
   })
   action!: AuditAction;
 
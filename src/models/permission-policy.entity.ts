@@ -0,0 +1,35 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { PermissionPolicy, PolicyRule } from '../interfaces/policy.interface';
+import { PermissionEntity } from './permission.entity';
+
+@Entity('permission_policies')
+export class PermissionPolicyEntity implements PermissionPolicy {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'permission_id' })
+  permission_id: number;
+
+  @ManyToOne(() => PermissionEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'permission_id' })
+  permission: PermissionEntity;
+
+  @Column()
+  name: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  // jsonb on PostgreSQL, see EntityMapper.applyDialect()
+  @Column({ type: 'jsonb' })
+  conditions: PolicyRule;
+
+  @Column({ name: 'is_active' })
+  is_active: boolean;
+
+  @Column({ name: 'created_at' })
+  created_at: Date;
+
+  @Column({ name: 'updated_at' })
+  updated_at: Date;
+}
@@ -1,6 +1,7 @@
-import { Entity, Column, PrimaryGeneratedColumn } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, Unique } from 'typeorm';
 
 @Entity('permissions')
+@Unique(['name'])
 export class PermissionEntity {
   @PrimaryGeneratedColumn()
   id: number;
@@ -8,7 +9,7 @@ export class PermissionEntity {
   @Column()
   name: string;
 
-  @Column()
+  @Column({ nullable: true })
   description: string;
 
   @Column()
@@ -0,0 +1,27 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Unique } from 'typeorm';
+import { RoleInheritance } from '../interfaces/role.interface';
+import { RoleEntity } from './role.entity';
+
+@Entity('role_inheritance')
+@Unique(['role_id', 'inherited_role_id'])
+export class RoleInheritanceEntity implements RoleInheritance {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'role_id' })
+  role_id: number;
+
+  @ManyToOne(() => RoleEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'role_id' })
+  role: RoleEntity;
+
+  @Column({ name: 'inherited_role_id' })
+  inherited_role_id: number;
+
+  @ManyToOne(() => RoleEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'inherited_role_id' })
+  inheritedRole: RoleEntity;
+
+  @Column({ name: 'created_at' })
+  created_at: Date;
+}
@@ -0,0 +1,32 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Unique } from 'typeorm';
+import { RolePermission } from '../interfaces/role.interface';
+import { RoleEntity } from './role.entity';
+import { PermissionEntity } from './permission.entity';
+import { PermissionEffect } from '../interfaces/permission.interface';
+
+@Entity('role_permissions')
+@Unique(['role_id', 'permission_id'])
+export class RolePermissionEntity implements RolePermission {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'role_id' })
+  role_id: number;
+
+  @ManyToOne(() => RoleEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'role_id' })
+  role: RoleEntity;
+
+  @Column({ name: 'permission_id' })
+  permission_id: number;
+
+  @ManyToOne(() => PermissionEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'permission_id' })
+  permission: PermissionEntity;
+
+  @Column({ length: 16, default: 'allow' })
+  effect: PermissionEffect;
+
+  @Column({ name: 'created_at' })
+  created_at: Date;
+}
@@ -0,0 +1,27 @@
+import { Entity, Column, PrimaryGeneratedColumn, Unique } from 'typeorm';
+import { Role } from '../interfaces/role.interface';
+
+@Entity('roles')
+@Unique(['name'])
+export class RoleEntity implements Role {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column()
+  level: number;
+
+  @Column({ name: 'is_active' })
+  is_active: boolean;
+
+  @Column({ name: 'created_at' })
+  created_at: Date;
+
+  @Column({ name: 'updated_at' })
+  updated_at: Date;
+}
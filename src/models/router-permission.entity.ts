@@ -1,5 +1,9 @@
-import { Entity, Column, PrimaryGeneratedColumn } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { PermissionEntity } from './permission.entity';
+import { PermissionEffect } from '../interfaces/permission.interface';
 
+// One row per route, method, permission, effect and tenant, NULL included. The generated
+// migrations enforce it with a unique index on COALESCE(tenant_id, '').
 @Entity('router_permissions')
 export class RouterPermissionEntity {
   @PrimaryGeneratedColumn()
@@ -8,15 +12,25 @@ export class RouterPermissionEntity {
   @Column()
   route: string;
 
-  @Column()
+  @Column({ length: 16 })
   method: string;
 
   @Column({ name: 'permission_id' })
   permission_id: number;
 
+  @ManyToOne(() => PermissionEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'permission_id' })
+  permission: PermissionEntity;
+
+  @Column({ length: 16, default: 'allow' })
+  effect: PermissionEffect;
+
   @Column({ name: 'is_active' })
   is_active: boolean;
 
+  @Column({ name: 'tenant_id', nullable: true })
+  tenant_id?: string;
+
   @Column({ name: 'created_at' })
   created_at: Date;
 
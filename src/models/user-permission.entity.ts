@@ -1,6 +1,10 @@
-import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { PermissionEntity } from './permission.entity';
+import { PermissionEffect } from '../interfaces/permission.interface';
 import { UserPermission } from '../interfaces/user.interface';
 
+// One row per user, permission, effect and tenant, NULL included. The generated migrations
+// enforce it with a unique index on COALESCE(tenant_id, ''), which @Unique() cannot express.
 @Entity('user_permissions')
 export class UserPermissionEntity implements UserPermission {
   @PrimaryGeneratedColumn()
@@ -12,6 +16,13 @@ export class UserPermissionEntity implements UserPermission {
   @Column({ name: 'permission_id' })
   permission_id: number;
 
+  @ManyToOne(() => PermissionEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'permission_id' })
+  permission: PermissionEntity;
+
+  @Column({ length: 16, default: 'allow' })
+  effect: PermissionEffect;
+
   @Column({ name: 'granted_at' })
   granted_at: Date;
 
@@ -21,6 +32,9 @@ export class UserPermissionEntity implements UserPermission {
   @Column({ name: 'is_active' })
   is_active: boolean;
 
+  @Column({ name: 'tenant_id', nullable: true })
+  tenant_id?: string;
+
   // Dynamic columns will be added at runtime based on configuration
   [key: string]: any;
 }
@@ -0,0 +1,33 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { UserRole } from '../interfaces/role.interface';
+import { RoleEntity } from './role.entity';
+
+// One row per user, role and tenant, NULL included. The generated migrations enforce it with
+// a unique index on COALESCE(tenant_id, '').
+@Entity('user_roles')
+export class UserRoleEntity implements UserRole {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'user_id' })
+  user_id: string;
+
+  @Column({ name: 'role_id' })
+  role_id: number;
+
+  @ManyToOne(() => RoleEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'role_id' })
+  role: RoleEntity;
+
+  @Column({ name: 'granted_at' })
+  granted_at: Date;
+
+  @Column({ name: 'expires_at', nullable: true })
+  expires_at?: Date;
+
+  @Column({ name: 'is_active' })
+  is_active: boolean;
+
+  @Column({ name: 'tenant_id', nullable: true })
+  tenant_id?: string;
+}
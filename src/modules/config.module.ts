@@ -8,12 +8,10 @@ export class ConfigModule {
     const providers = [
       {
         provide: ConfigService,
-        useFactory: async () => {
+        useFactory: () => {
           const service = new ConfigService();
           if (config) {
-            await service.loadConfig();
-            const currentConfig = service.getConfig();
-            return service.mergeWithDefaults({ ...currentConfig, ...config });
+            service.setConfig(config);
           }
           return service;
         },
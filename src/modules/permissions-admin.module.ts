@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { PermissionsAdminController } from '../controllers/permissions-admin.controller';
+
+// Requires PermissionsModule.register() in the root module
+@Module({
+  controllers: [PermissionsAdminController],
+})
+export class PermissionsAdminModule {}
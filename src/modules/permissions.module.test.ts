@@ -0,0 +1,152 @@
+import { DynamicModule, Injectable, Module } from '@nestjs/common';
+import { APP_GUARD, NestFactory } from '@nestjs/core';
+import { INestApplicationContext } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PermissionsModule } from './permissions.module';
+import { SecurityModule } from './security.module';
+import { ErrorHandlingModule } from './error-handling.module';
+import { ConfigService } from '../services/config.service';
+import { PermissionService } from '../services/permission.service';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { PERMISSIONS_MODULE_OPTIONS } from '../constants';
+import {
+  PermissionsModuleConfig,
+  PermissionsOptionsFactory,
+} from '../interfaces/module-options.interface';
+import { ConfigurationException } from '../exceptions/configuration.exception';
+import { TEST_ENTITIES } from '../testing/test-module';
+
+@Injectable()
+class SecretsService {
+  getAdminRole(): string {
+    return 'superuser';
+  }
+}
+
+@Module({ providers: [SecretsService], exports: [SecretsService] })
+class SecretsModule {}
+
+@Injectable()
+class PermissionsConfigFactory implements PermissionsOptionsFactory {
+  createPermissionsOptions(): PermissionsModuleConfig {
+    return { config: { permissions: { adminRole: 'owner' } as any } };
+  }
+}
+
+describe('PermissionsModule', () => {
+  let app: INestApplicationContext | undefined;
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+  });
+
+  // Security middleware and error handling are left to the tests that cover them
+  const standalone = {
+    securityMiddleware: false,
+    errorHandling: false,
+    databaseType: 'sqlite' as const,
+  };
+
+  const createApp = async (...modules: DynamicModule[]) => {
+    @Module({
+      imports: [
+        TypeOrmModule.forRoot({
+          type: 'sqljs',
+          entities: TEST_ENTITIES,
+          synchronize: true,
+          logging: false,
+        }),
+        ...modules,
+      ],
+    })
+    class AppModule {}
+
+    app = await NestFactory.createApplicationContext(AppModule, { logger: false });
+    return app;
+  };
+
+  const providerTokens = (module: DynamicModule) =>
+    (module.providers || []).map((provider: any) => provider.provide ?? provider);
+  const importedModules = (module: DynamicModule) => module.imports || [];
+
+  describe('forRootAsync', () => {
+    it('resolves the configuration through an injected factory', async () => {
+      const context = await createApp(
+        PermissionsModule.forRootAsync({
+          ...standalone,
+          imports: [SecretsModule],
+          inject: [SecretsService],
+          useFactory: (secrets: SecretsService) => ({
+            config: { permissions: { adminRole: secrets.getAdminRole() } as any },
+            securityConfig: { cacheTimeout: 42 },
+          }),
+        }),
+      );
+
+      // The services and SecurityMiddleware read the same instance
+      const configService = context.get(ConfigService);
+      const config = configService.getConfig();
+      expect(config.permissions.adminRole).toBe('superuser');
+      expect(config.security.cacheTimeout).toBe(42);
+      expect(configService.getSecurityConfig().cacheTimeout).toBe(42);
+      // Defaults still fill in whatever the factory leaves out
+      expect(config.permissions.permissionStrategy).toBeDefined();
+      expect(context.get(PERMISSIONS_MODULE_OPTIONS).securityConfig).toEqual({ cacheTimeout: 42 });
+    });
+
+    it('creates the options with a factory class', async () => {
+      const context = await createApp(
+        PermissionsModule.forRootAsync({ ...standalone, useClass: PermissionsConfigFactory }),
+      );
+
+      expect(context.get(ConfigService).getConfig().permissions.adminRole).toBe('owner');
+    });
+
+    it('requires a way to create the options', () => {
+      expect(() => PermissionsModule.forRootAsync({})).toThrow(ConfigurationException);
+    });
+  });
+
+  describe('registration', () => {
+    it('installs the global guard and middleware by default', () => {
+      const module = PermissionsModule.register();
+
+      expect(providerTokens(module)).toContain(APP_GUARD);
+      expect(importedModules(module)).toEqual(
+        expect.arrayContaining([SecurityModule, ErrorHandlingModule]),
+      );
+    });
+
+    it('leaves guarding and middleware to the application when opted out', () => {
+      const module = PermissionsModule.register({}, {}, { globalGuard: false, ...standalone });
+
+      expect(providerTokens(module)).not.toContain(APP_GUARD);
+      expect(providerTokens(module)).toContain(PermissionsGuard);
+      expect(importedModules(module)).not.toContain(SecurityModule);
+      expect(importedModules(module)).not.toContain(ErrorHandlingModule);
+    });
+
+    it('registers the route defaults of feature modules', async () => {
+      const context = await createApp(
+        PermissionsModule.register({}, {}, standalone),
+        PermissionsModule.forFeature({
+          routes: [
+            { route: '/reports/**', method: 'GET', permission: 'reports.read' },
+            { route: '/reports/**', method: 'DELETE', permission: 'contractor', effect: 'deny' },
+          ],
+        }),
+      );
+      const permissionService = context.get(PermissionService);
+
+      const rules = await permissionService.getRoutePermissions('/reports/1', 'GET');
+      expect(rules.map((rule) => [rule.permission.name, rule.effect])).toEqual([
+        ['reports.read', 'allow'],
+      ]);
+      const denies = await permissionService.getRoutePermissions('/reports/1', 'DELETE');
+      expect(denies.map((rule) => [rule.permission.name, rule.effect])).toEqual([
+        ['contractor', 'deny'],
+      ]);
+    });
+  });
+});
@@ -1,6 +1,5 @@
-import { DynamicModule, Module, Type } from '@nestjs/common';
+import { DynamicModule, Module, Provider } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { ConfigModule } from './config.module';
 import { SecurityModule } from './security.module';
 import { ConfigService } from '../services/config.service';
 import { PermissionService } from '../services/permission.service';
@@ -8,41 +7,173 @@ import { PermissionsGuard } from '../guards/permissions.guard';
 import { PermissionEntity } from '../models/permission.entity';
 import { UserPermissionEntity } from '../models/user-permission.entity';
 import { RouterPermissionEntity } from '../models/router-permission.entity';
-import { PermissionConfig } from '../interfaces/config.interface';
+import { DatabaseConfig, PermissionConfig } from '../interfaces/config.interface';
 import { SecurityConfig } from '../interfaces/security.interface';
 import { SchemaValidatorService } from '../services/schema-validator.service';
 import { RoleHierarchyService } from '../services/role-hierarchy.service';
 import { AuditService } from '../services/audit.service';
 import { AuditLogEntity } from '../models/audit-log.entity';
+import { RoleEntity } from '../models/role.entity';
+import { RolePermissionEntity } from '../models/role-permission.entity';
+import { UserRoleEntity } from '../models/user-role.entity';
+import { RoleInheritanceEntity } from '../models/role-inheritance.entity';
+import { PermissionPolicyEntity } from '../models/permission-policy.entity';
 import { ConfigPublisherService } from '../services/config-publisher.service';
 import { SecurityConfigPublisherService } from '../services/security-config-publisher.service';
 import { MigrationGeneratorService } from '../services/migration-generator.service';
+import { PermissionExpiryService } from '../services/permission-expiry.service';
 import { ErrorHandlingModule } from './error-handling.module';
 import { APP_GUARD } from '@nestjs/core';
+import { PermissionCacheService } from '../services/permission-cache.service';
+import { PolicyEvaluatorService } from '../services/policy-evaluator.service';
+import { MemoryCacheStore } from '../cache/memory-cache.store';
+import {
+  PermissionsFeatureOptions,
+  PermissionsModuleAsyncOptions,
+  PermissionsModuleConfig,
+  PermissionsModuleOptions,
+  PermissionsModuleRegistration,
+  PermissionsOptionsFactory,
+} from '../interfaces/module-options.interface';
+import { ConfigurationException } from '../exceptions/configuration.exception';
+import { EntityMapper } from '../utils/entity-mapping.util';
+import {
+  PERMISSIONS_FEATURE_OPTIONS,
+  PERMISSIONS_MODULE_OPTIONS,
+  PERMISSION_CACHE_STORE,
+} from '../constants';
 
 @Module({})
 export class PermissionsModule {
   static register(
     config?: Partial<PermissionConfig>,
     securityConfig?: Partial<SecurityConfig>,
+    options: PermissionsModuleOptions = {},
   ): DynamicModule {
-    const imports: Array<Type<any> | DynamicModule | Promise<DynamicModule>> = [
-      ConfigModule.register(config),
-      TypeOrmModule.forFeature([
-        PermissionEntity,
-        UserPermissionEntity,
-        RouterPermissionEntity,
-        AuditLogEntity,
-      ]),
-      SecurityModule,
-      ErrorHandlingModule,
+    const entities = options.entities || config?.database?.entities;
+    const databaseType = options.databaseType || config?.database?.type;
+    return this.createModule({ ...options, entities, databaseType }, [
+      {
+        provide: PERMISSIONS_MODULE_OPTIONS,
+        useValue: { ...options, config, securityConfig },
+      },
+    ]);
+  }
+
+  /**
+   * Resolves the configuration from other providers, such as `@nestjs/config` or a secrets
+   * manager, before any permission service is created.
+   */
+  static forRootAsync(options: PermissionsModuleAsyncOptions): DynamicModule {
+    return this.createModule(options, this.createAsyncProviders(options), options.imports);
+  }
+
+  /**
+   * Declares the route rules of a feature module next to its controllers. Requires
+   * `register()` or `forRootAsync()` in the root module.
+   */
+  static forFeature(options: PermissionsFeatureOptions = {}): DynamicModule {
+    return {
+      module: PermissionsModule,
+      providers: [
+        { provide: PERMISSIONS_FEATURE_OPTIONS, useValue: options },
+        {
+          provide: `${PERMISSIONS_FEATURE_OPTIONS}_REGISTRATION`,
+          useFactory: (permissionService: PermissionService, feature: PermissionsFeatureOptions) =>
+            permissionService.registerRouteDefaults(feature.routes || []),
+          inject: [PermissionService, PERMISSIONS_FEATURE_OPTIONS],
+        },
+      ],
+    };
+  }
+
+  private static createAsyncProviders(options: PermissionsModuleAsyncOptions): Provider[] {
+    if (options.useFactory) {
+      return [
+        {
+          provide: PERMISSIONS_MODULE_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject || [],
+        },
+      ];
+    }
+
+    const factory = options.useExisting || options.useClass;
+    if (!factory) {
+      throw new ConfigurationException(
+        'PermissionsModule.forRootAsync() requires useFactory, useClass or useExisting',
+      );
+    }
+
+    return [
+      {
+        provide: PERMISSIONS_MODULE_OPTIONS,
+        useFactory: (optionsFactory: PermissionsOptionsFactory) =>
+          optionsFactory.createPermissionsOptions(),
+        inject: [factory],
+      },
+      ...(options.useExisting ? [] : [{ provide: factory, useClass: factory }]),
     ];
+  }
+
+  private static createModule(
+    registration: PermissionsModuleRegistration,
+    optionsProviders: Provider[],
+    imports: PermissionsModuleAsyncOptions['imports'] = [],
+  ): DynamicModule {
+    const { globalGuard = true, securityMiddleware = true, errorHandling = true } = registration;
+    const { entities, databaseType = 'postgres' } = registration;
+
+    // Entities are mapped before TypeORM builds their metadata on connect
+    if (entities) {
+      EntityMapper.apply(entities);
+    }
+    EntityMapper.applyDialect(databaseType);
 
     return {
       module: PermissionsModule,
-      imports,
+      global: true,
+      imports: [
+        ...imports,
+        TypeOrmModule.forFeature([
+          PermissionEntity,
+          UserPermissionEntity,
+          RouterPermissionEntity,
+          AuditLogEntity,
+          RoleEntity,
+          RolePermissionEntity,
+          UserRoleEntity,
+          RoleInheritanceEntity,
+          PermissionPolicyEntity,
+        ]),
+        ...(securityMiddleware ? [SecurityModule] : []),
+        ...(errorHandling ? [ErrorHandlingModule] : []),
+      ],
       providers: [
-        ConfigService,
+        ...optionsProviders,
+        {
+          // The guard, the services and SecurityMiddleware all read this instance
+          provide: ConfigService,
+          useFactory: ({ config = {}, securityConfig }: PermissionsModuleConfig) => {
+            const service = new ConfigService();
+            const database = {
+              ...config.database,
+              entities: { ...config.database?.entities, ...entities },
+            };
+            service.setConfig(
+              entities ? { ...config, database: database as DatabaseConfig } : config,
+              securityConfig,
+            );
+            return service;
+          },
+          inject: [PERMISSIONS_MODULE_OPTIONS],
+        },
+        {
+          provide: PERMISSION_CACHE_STORE,
+          useFactory: (options: PermissionsModuleConfig) =>
+            options.cacheStore || new MemoryCacheStore(options.cacheMaxEntries),
+          inject: [PERMISSIONS_MODULE_OPTIONS],
+        },
         PermissionService,
         PermissionsGuard,
         SchemaValidatorService,
@@ -51,14 +182,10 @@ export class PermissionsModule {
         ConfigPublisherService,
         SecurityConfigPublisherService,
         MigrationGeneratorService,
-        {
-          provide: 'SECURITY_CONFIG',
-          useValue: securityConfig,
-        },
-        {
-          provide: APP_GUARD,
-          useClass: PermissionsGuard,
-        },
+        PermissionExpiryService,
+        PermissionCacheService,
+        PolicyEvaluatorService,
+        ...(globalGuard ? [{ provide: APP_GUARD, useClass: PermissionsGuard }] : []),
       ],
       exports: [
         PermissionService,
@@ -70,7 +197,10 @@ export class PermissionsModule {
         ConfigPublisherService,
         SecurityConfigPublisherService,
         MigrationGeneratorService,
-        ConfigModule,
+        PermissionExpiryService,
+        PermissionCacheService,
+        PolicyEvaluatorService,
+        PERMISSIONS_MODULE_OPTIONS,
       ],
     };
   }
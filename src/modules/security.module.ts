@@ -1,11 +1,8 @@
 import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
 import { SecurityMiddleware } from '../middleware/security.middleware';
-import { ConfigService } from '../services/config.service';
 
-@Module({
-  providers: [ConfigService],
-  exports: [ConfigService],
-})
+// The middleware uses the global ConfigService provided by PermissionsModule or ConfigModule
+@Module({})
 export class SecurityModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer.apply(SecurityMiddleware).forRoutes('*'); // Apply to all routes
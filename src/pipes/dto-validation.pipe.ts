@@ -0,0 +1,19 @@
+import { ArgumentMetadata, Injectable, PipeTransform } from '@nestjs/common';
+
+interface ValidatableDto {
+  validate(value: any): any;
+}
+
+@Injectable()
+export class DtoValidationPipe implements PipeTransform {
+  transform(value: any, metadata: ArgumentMetadata) {
+    const metatype = metadata.metatype as unknown as Partial<ValidatableDto> | undefined;
+
+    // Only DTO classes exposing a static validate() are checked
+    if ((metadata.type === 'body' || metadata.type === 'query') && metatype?.validate) {
+      return metatype.validate(value);
+    }
+
+    return value;
+  }
+}
@@ -7,6 +7,7 @@ import { AuditLogEntity, AuditAction } from '../models/audit-log.entity';
 export interface AuditLog {
   id: string;
   userId: string;
+  tenantId?: string;
   action: AuditAction;
   target: string;
   result: boolean;
@@ -14,8 +15,16 @@ export interface AuditLog {
   timestamp: Date;
 }
 
+export interface AuditLogPage {
+  items: AuditLog[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
 export interface AuditFilters {
   userId?: string;
+  tenantId?: string;
   action?: AuditAction;
   target?: string;
   result?: boolean;
@@ -94,7 +103,28 @@ export class AuditService {
   }
 
   async getAuditLogs(filters: AuditFilters = {}): Promise<AuditLog[]> {
-    const { userId, action, target, result, startDate, endDate, limit = 100, offset = 0 } = filters;
+    return this.buildAuditQuery(filters).getMany();
+  }
+
+  async findAuditLogs(filters: AuditFilters = {}): Promise<AuditLogPage> {
+    const { limit = 100, offset = 0 } = filters;
+    const [items, total] = await this.buildAuditQuery(filters).getManyAndCount();
+
+    return { items, total, limit, offset };
+  }
+
+  private buildAuditQuery(filters: AuditFilters) {
+    const {
+      userId,
+      tenantId,
+      action,
+      target,
+      result,
+      startDate,
+      endDate,
+      limit = 100,
+      offset = 0,
+    } = filters;
 
     const query = this.auditRepository.createQueryBuilder('audit');
 
@@ -102,6 +132,10 @@ export class AuditService {
       query.andWhere('audit.userId = :userId', { userId });
     }
 
+    if (tenantId) {
+      query.andWhere('audit.tenantId = :tenantId', { tenantId });
+    }
+
     if (action) {
       query.andWhere('audit.action = :action', { action });
     }
@@ -128,14 +162,14 @@ export class AuditService {
       });
     }
 
-    query.orderBy('audit.timestamp', 'DESC').skip(offset).take(limit);
-
-    return query.getMany();
+    return query.orderBy('audit.timestamp', 'DESC').skip(offset).take(limit);
   }
 
   private async createAuditLog(log: Omit<AuditLog, 'id' | 'timestamp'>): Promise<void> {
     await this.auditRepository.save({
       ...log,
+      // Callers pass the tenant with the metadata, it gets its own column for filtering
+      tenantId: log.tenantId ?? log.metadata?.tenantId,
       timestamp: new Date(),
     });
   }
@@ -4,6 +4,8 @@ import { defaultConfig } from '../config/default-config';
 import { defaultSecurityConfig } from '../config/default-security.config';
 import * as fs from 'fs';
 import * as path from 'path';
+import { PERMISSIONS_CONFIG_EXPORTS } from '../constants';
+import { ConfigLoader } from '../utils/config-loader.util';
 
 export interface ConfigTemplate {
   name: string;
@@ -142,7 +144,10 @@ export class ConfigPublisherService {
     }
 
     // Load existing config
-    const currentConfig = await import(configPath);
+    const currentConfig = await ConfigLoader.loadFile<PermissionConfig>(
+      configPath,
+      PERMISSIONS_CONFIG_EXPORTS,
+    );
 
     // Merge updates
     const updatedConfig = this.mergeConfigs(currentConfig, updates);
@@ -177,6 +182,26 @@ export class ConfigPublisherService {
             ...base.database?.entities?.userPermissions,
             ...updates.database?.entities?.userPermissions,
           },
+          roles: {
+            ...base.database?.entities?.roles,
+            ...updates.database?.entities?.roles,
+          },
+          rolePermissions: {
+            ...base.database?.entities?.rolePermissions,
+            ...updates.database?.entities?.rolePermissions,
+          },
+          userRoles: {
+            ...base.database?.entities?.userRoles,
+            ...updates.database?.entities?.userRoles,
+          },
+          roleInheritance: {
+            ...base.database?.entities?.roleInheritance,
+            ...updates.database?.entities?.roleInheritance,
+          },
+          permissionPolicies: {
+            ...base.database?.entities?.permissionPolicies,
+            ...updates.database?.entities?.permissionPolicies,
+          },
         },
       },
       permissions: {
@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from './config.service';
+import { ConfigurationException } from '../exceptions/configuration.exception';
+
+describe('ConfigService', () => {
+  let projectPath: string;
+  let configService: ConfigService;
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'permissions-project-'));
+    configService = new ConfigService();
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectPath, { recursive: true, force: true });
+  });
+
+  const writeConfig = (relativePath: string, config: object) => {
+    const filePath = path.join(projectPath, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `module.exports = ${JSON.stringify(config)};`);
+  };
+
+  it('loads the config directory and merges the defaults', async () => {
+    writeConfig('config/permissions.config.js', { database: { type: 'sqlite' } });
+
+    const config = await configService.loadConfig(projectPath, { env: false });
+    expect(config.database.type).toBe('sqlite');
+    expect(config.database.entities.permissions.tableName).toBe('permissions');
+    expect(config.permissions.permissionStrategy).toBeDefined();
+  });
+
+  it('falls back to the permission.config.js of earlier versions', async () => {
+    writeConfig('permission.config.js', { database: { type: 'mysql' } });
+
+    await expect(configService.loadConfig(projectPath)).resolves.toMatchObject({
+      database: { type: 'mysql' },
+    });
+
+    writeConfig('config/permissions.config.js', { database: { type: 'sqlite' } });
+    await expect(configService.loadConfig(projectPath, { env: false })).resolves.toMatchObject({
+      database: { type: 'sqlite' },
+    });
+  });
+
+  it('keeps the current config without a file', async () => {
+    const config = await configService.loadConfig(projectPath);
+    expect(config).toBe(configService.getConfig());
+  });
+
+  it('rejects invalid configurations', async () => {
+    writeConfig('config/permissions.config.js', { database: { type: 'oracle' } });
+
+    await expect(configService.loadConfig(projectPath, { env: false })).rejects.toBeInstanceOf(
+      ConfigurationException,
+    );
+  });
+});
@@ -1,11 +1,16 @@
 import { Injectable } from '@nestjs/common';
-import { PermissionConfig } from '../interfaces/config.interface';
+import { DatabaseConfig, EntityConfig, PermissionConfig } from '../interfaces/config.interface';
 import { defaultConfig } from '../config/default-config';
 import * as path from 'path';
 import * as fs from 'fs';
 import { SecurityConfig } from '../interfaces/security.interface';
 import { defaultSecurityConfig } from '../config/default-security.config';
 import { ConfigurationException } from '../exceptions/configuration.exception';
+import { ConfigLoader, ConfigLoadOptions } from '../utils/config-loader.util';
+import { PERMISSIONS_CONFIG_EXPORTS } from '../constants';
+
+// Read before configs moved to the config directory
+const LEGACY_CONFIG_FILE = 'permission.config.js';
 
 @Injectable()
 export class ConfigService {
@@ -17,20 +22,37 @@ export class ConfigService {
     this.securityConfig = defaultSecurityConfig;
   }
 
-  async loadConfig(projectPath?: string): Promise<PermissionConfig> {
+  /**
+   * Reads `<projectPath>/config/permissions.config.*` and its environment overlay, or the
+   * `<projectPath>/permission.config.js` of earlier versions when there is none. The module
+   * does not call this, `register()` and `forRootAsync()` take the configuration as an object.
+   */
+  async loadConfig(
+    projectPath?: string,
+    options: ConfigLoadOptions = {},
+  ): Promise<PermissionConfig> {
     if (!projectPath) {
       return this.config;
     }
 
     try {
-      const configPath = path.join(projectPath, 'permission.config.js');
-      if (fs.existsSync(configPath)) {
-        const userConfig = await import(configPath);
-        this.config = this.mergeWithDefaults(userConfig);
+      const loaded = await ConfigLoader.load<PermissionConfig>('permissions', {
+        directory: path.join(projectPath, 'config'),
+        exportNames: PERMISSIONS_CONFIG_EXPORTS,
+        ...options,
+      });
+      const legacyPath = path.join(projectPath, LEGACY_CONFIG_FILE);
+      const config = loaded
+        ? loaded.config
+        : fs.existsSync(legacyPath)
+          ? await ConfigLoader.loadFile<PermissionConfig>(legacyPath, PERMISSIONS_CONFIG_EXPORTS)
+          : undefined;
+      if (config) {
+        this.config = this.mergeWithDefaults(config);
         this.validateConfig(this.config);
       }
     } catch (error) {
-      throw new Error(`Failed to load configuration: ${error.message}`);
+      throw new ConfigurationException(`Failed to load configuration: ${error.message}`);
     }
 
     return this.config;
@@ -72,18 +94,14 @@ export class ConfigService {
         ...defaultConfig.database,
         ...userConfig.database,
         entities: {
-          permissions: {
-            ...defaultConfig.database.entities.permissions,
-            ...userConfig.database?.entities?.permissions,
-          },
-          routerPermissions: {
-            ...defaultConfig.database.entities.routerPermissions,
-            ...userConfig.database?.entities?.routerPermissions,
-          },
-          userPermissions: {
-            ...defaultConfig.database.entities.userPermissions,
-            ...userConfig.database?.entities?.userPermissions,
-          },
+          permissions: this.mergeEntity('permissions', userConfig),
+          routerPermissions: this.mergeEntity('routerPermissions', userConfig),
+          userPermissions: this.mergeEntity('userPermissions', userConfig),
+          roles: this.mergeEntity('roles', userConfig),
+          rolePermissions: this.mergeEntity('rolePermissions', userConfig),
+          userRoles: this.mergeEntity('userRoles', userConfig),
+          roleInheritance: this.mergeEntity('roleInheritance', userConfig),
+          permissionPolicies: this.mergeEntity('permissionPolicies', userConfig),
         },
       },
       permissions: {
@@ -101,6 +119,28 @@ export class ConfigService {
     };
   }
 
+  setConfig(config: Partial<PermissionConfig>, securityConfig?: Partial<SecurityConfig>): void {
+    // Caching and audit settings are read from `config.security`, so the module's
+    // security config applies there as well
+    this.config = this.mergeWithDefaults({
+      ...config,
+      security: { ...config.security, ...securityConfig } as SecurityConfig,
+    });
+    if (securityConfig) {
+      this.updateSecurityConfig(securityConfig);
+    }
+  }
+
+  private mergeEntity(
+    key: keyof DatabaseConfig['entities'],
+    userConfig: Partial<PermissionConfig>,
+  ): EntityConfig {
+    // Mapping a few columns keeps the default names of the others
+    const defaults = defaultConfig.database.entities[key];
+    const entity = userConfig.database?.entities?.[key];
+    return { ...defaults, ...entity, fields: { ...defaults.fields, ...entity?.fields } };
+  }
+
   getConfig(): PermissionConfig {
     return this.config;
   }
@@ -131,12 +171,4 @@ export class ConfigService {
       },
     };
   }
-
-  private loadConfigFromFile(filePath: string): PermissionConfig {
-    if (!fs.existsSync(filePath)) {
-      throw new ConfigurationException(`Configuration file not found at ${filePath}`);
-    }
-    const configContent = fs.readFileSync(filePath, 'utf8');
-    return JSON.parse(configContent);
-  }
 }
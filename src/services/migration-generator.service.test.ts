@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { DataSource, MigrationInterface, Table } from 'typeorm';
+import { MigrationGeneratorService } from './migration-generator.service';
+import { AuditLogEntity } from '../models/audit-log.entity';
+import { PermissionPolicyEntity } from '../models/permission-policy.entity';
+import { createTestDataSource, seedPermissions } from '../testing/test-module';
+
+describe('MigrationGeneratorService', () => {
+  let projectDir: string;
+  let dataSource: DataSource | undefined;
+  const generator = new MigrationGeneratorService();
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'permissions-migrations-'));
+    fs.mkdirSync(path.join(projectDir, 'config'));
+    jest.spyOn(process, 'cwd').mockReturnValue(projectDir);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await dataSource?.destroy();
+    dataSource = undefined;
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: object) =>
+    fs.writeFileSync(
+      path.join(projectDir, 'config', 'permissions.config.json'),
+      JSON.stringify(config),
+    );
+
+  const generatedFile = (directory: string, before: string[]) => {
+    const file = fs.readdirSync(directory).find((f) => f.endsWith('.ts') && !before.includes(f));
+    return fs.readFileSync(path.join(directory, file as string), 'utf8');
+  };
+
+  const generateSource = async (name: string): Promise<string> => {
+    const directory = path.join(projectDir, 'migrations');
+    const before = fs.existsSync(directory) ? fs.readdirSync(directory) : [];
+    await generator.generateMigration(name, directory);
+    return generatedFile(directory, before);
+  };
+
+  // Compiled here, the temporary directory cannot resolve the project's modules
+  const generate = async (name: string): Promise<MigrationInterface> => {
+    const { outputText } = ts.transpileModule(await generateSource(name), {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    });
+    const module = { exports: {} as Record<string, new () => MigrationInterface> };
+    new Function('module', 'exports', 'require', outputText)(module, module.exports, require);
+    return new (Object.values(module.exports)[0])();
+  };
+
+  it('creates a native enum type and jsonb columns on PostgreSQL', async () => {
+    writeConfig({ database: { type: 'postgres' } });
+    const source = await generateSource('init');
+
+    expect(source).toContain(
+      `CREATE TYPE "audit_logs_action_enum" AS ENUM ('check', 'grant', 'revoke', 'modify')`,
+    );
+    expect(source).toContain(`"action" "audit_logs_action_enum" NOT NULL`);
+    expect(source).toContain(`"metadata" jsonb`);
+    expect(source).toContain(`"conditions" jsonb`);
+    expect(source).toContain(`DROP TYPE IF EXISTS "audit_logs_action_enum"`);
+    expect(source).toContain(
+      `CREATE UNIQUE INDEX "UQ_user_permissions_grant" ON "user_permissions" ` +
+        `("user_id", "permission_id", "effect", (COALESCE("tenant_id", '')))`,
+    );
+  });
+
+  it('uses inline enums and json columns on MySQL', async () => {
+    writeConfig({ database: { type: 'mysql' } });
+    const source = await generateSource('init');
+
+    // Backticks are escaped inside the generated template literals
+    expect(source).toContain("\\`action\\` enum ('check', 'grant', 'revoke', 'modify') NOT NULL");
+    expect(source).toContain('\\`metadata\\` json');
+    expect(source).not.toContain('CREATE TYPE');
+  });
+
+  it('keeps the unique index keys within the MySQL limit of 3072 bytes', async () => {
+    writeConfig({ database: { type: 'mysql' } });
+    const source = await generateSource('init');
+
+    // 4 bytes per utf8mb4 character: 255 + 16 + 16 + 255 characters and an int
+    expect(source).toContain('\\`route\\` varchar(255) NOT NULL');
+    expect(source).toContain('\\`method\\` varchar(16) NOT NULL');
+    expect(source).toContain("\\`effect\\` varchar(16) NOT NULL DEFAULT 'allow'");
+    expect(source).toContain('\\`tenant_id\\` varchar(255),');
+    expect(source).toContain(
+      'CREATE UNIQUE INDEX \\`UQ_router_permissions_rule\\` ON \\`router_permissions\\` ' +
+        "(\\`route\\`, \\`method\\`, \\`permission_id\\`, \\`effect\\`, (COALESCE(\\`tenant_id\\`, '')))",
+    );
+  });
+
+  describe('diff migrations', () => {
+    const withPermissions = (permissions: object) =>
+      writeConfig({ database: { type: 'postgres', entities: { permissions } } });
+
+    it('keeps the default names of the columns a mapping leaves out', async () => {
+      withPermissions({ tableName: 'permissions', fields: {} });
+      await generateSource('init');
+
+      withPermissions({ tableName: 'permissions', fields: { name: 'perm_name' } });
+      const source = await generateSource('rename');
+
+      expect(source).toContain('ALTER TABLE "permissions" RENAME COLUMN "name" TO "perm_name"');
+      expect(source).not.toContain('DROP COLUMN');
+      expect(source).not.toContain('ADD COLUMN');
+    });
+
+    it('refuses to drop or add key columns', async () => {
+      withPermissions({ tableName: 'permissions', fields: {} });
+      await generateSource('init');
+
+      withPermissions({ tableName: 'permissions', fields: { id: null } });
+      await expect(generateSource('drop-id')).rejects.toMatchObject({
+        type: 'SCHEMA_MISMATCH',
+        message: expect.stringContaining('Cannot drop the id column of permissions'),
+      });
+
+      writeConfig({
+        database: {
+          type: 'postgres',
+          entities: { userRoles: { tableName: 'user_roles', fields: { roleId: null } } },
+        },
+      });
+      await expect(generateSource('drop-role')).rejects.toMatchObject({
+        type: 'SCHEMA_MISMATCH',
+      });
+      expect(fs.readdirSync(path.join(projectDir, 'migrations'))).toHaveLength(2);
+    });
+  });
+
+  describe('on SQLite', () => {
+    const columnTypes = (dataSource: DataSource, table: Table, entity: new () => object) =>
+      dataSource
+        .getMetadata(entity)
+        .columns.map((column) => [
+          column.databaseName,
+          dataSource.driver.normalizeType(column),
+          table.findColumnByName(column.databaseName)?.type,
+        ]);
+
+    it('creates the columns the entities expect', async () => {
+      writeConfig({ database: { type: 'sqlite' } });
+      const migration = await generate('init');
+      dataSource = await createTestDataSource({ synchronize: false });
+      const queryRunner = dataSource.createQueryRunner();
+      await migration.up(queryRunner);
+
+      for (const entity of [AuditLogEntity, PermissionPolicyEntity]) {
+        const table = (await queryRunner.getTable(dataSource.getMetadata(entity).tableName))!;
+        for (const [name, expected, actual] of columnTypes(dataSource, table, entity)) {
+          expect({ name, type: actual }).toEqual({ name, type: expected });
+        }
+      }
+
+      await migration.down(queryRunner);
+      expect(await queryRunner.getTables(['audit_logs', 'permissions'])).toEqual([]);
+      await queryRunner.release();
+    });
+
+    it('rejects duplicate grants, also without a tenant', async () => {
+      writeConfig({ database: { type: 'sqlite' } });
+      const migration = await generate('init');
+      dataSource = await createTestDataSource({ synchronize: false });
+      const queryRunner = dataSource.createQueryRunner();
+      await migration.up(queryRunner);
+      await queryRunner.release();
+
+      const { 'orders.read': permission } = await seedPermissions(dataSource, ['orders.read']);
+      const grant = (effect: string, tenantId: string | null) =>
+        dataSource!.query(
+          `INSERT INTO "user_permissions" ("user_id", "permission_id", "effect", "granted_at", "is_active", "tenant_id") VALUES ('u1', ?, ?, CURRENT_TIMESTAMP, 1, ?)`,
+          [permission.id, effect, tenantId],
+        );
+
+      await grant('allow', null);
+      await grant('deny', null);
+      await grant('allow', 't1');
+      await expect(grant('allow', null)).rejects.toThrow(/UNIQUE constraint/);
+      await expect(grant('allow', 't1')).rejects.toThrow(/UNIQUE constraint/);
+    });
+
+    it('stores audit actions and JSON values in the migrated tables', async () => {
+      writeConfig({ database: { type: 'sqlite' } });
+      const migration = await generate('init');
+      dataSource = await createTestDataSource({ synchronize: false });
+      const queryRunner = dataSource.createQueryRunner();
+      await migration.up(queryRunner);
+      await queryRunner.release();
+
+      const { 'orders.read': permission } = await seedPermissions(dataSource, ['orders.read']);
+      await dataSource.getRepository(PermissionPolicyEntity).save({
+        permission_id: permission.id,
+        name: 'own orders',
+        conditions: { field: 'resource.ownerId', operator: 'eq', valueFrom: 'user.id' },
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+      await dataSource.getRepository(AuditLogEntity).save({
+        userId: 'u1',
+        action: 'grant',
+        target: 'orders.read',
+        result: true,
+        metadata: { tenantId: null, roles: ['viewer'] },
+      });
+
+      const [policy] = await dataSource.getRepository(PermissionPolicyEntity).find();
+      expect(policy.conditions).toEqual({
+        field: 'resource.ownerId',
+        operator: 'eq',
+        valueFrom: 'user.id',
+      });
+      const [entry] = await dataSource.getRepository(AuditLogEntity).find();
+      expect(entry).toMatchObject({
+        action: 'grant',
+        metadata: { tenantId: null, roles: ['viewer'] },
+      });
+
+      await expect(
+        dataSource.query(
+          `INSERT INTO "audit_logs" ("id", "userId", "action", "target", "result", "metadata") VALUES ('x', 'u1', 'drop', 't', 1, '{}')`,
+        ),
+      ).rejects.toThrow(/CHECK constraint/);
+    });
+  });
+});
@@ -1,8 +1,13 @@
 import { Injectable } from '@nestjs/common';
-import { PermissionConfig } from '../interfaces/config.interface';
+import { DatabaseConfig, PermissionConfig } from '../interfaces/config.interface';
+import { defaultConfig } from '../config/default-config';
 import * as fs from 'fs';
 import * as path from 'path';
 import { MigrationException } from '../exceptions/migration.exception';
+import { ColumnKind, SqlDialect } from '../utils/sql-dialect.util';
+import { AUDIT_ACTIONS, PERMISSIONS_CONFIG_EXPORTS } from '../constants';
+import { ConfigLoader } from '../utils/config-loader.util';
+import { ConfigurationException } from '../exceptions/configuration.exception';
 
 export interface MigrationOptions {
   directory?: string;
@@ -14,6 +19,90 @@ export interface EntityFields {
   fields: Record<string, string>;
 }
 
+/**
+ * Database section of the configuration the last migration was generated from.
+ */
+export interface MigrationSnapshot {
+  generatedAt: string;
+  migration: string;
+  database: DatabaseConfig;
+}
+
+// One schema change and the statement that reverts it
+interface SchemaChange {
+  up: string;
+  down: string;
+}
+
+interface IndexDefinition {
+  name: string;
+  table: string;
+  columns: string[];
+  unique?: boolean;
+  nullable?: string[];
+}
+
+type EntityKey = keyof DatabaseConfig['entities'];
+
+// Referenced tables come before the tables that point at them
+const ENTITY_ORDER: EntityKey[] = [
+  'permissions',
+  'roles',
+  'routerPermissions',
+  'userPermissions',
+  'rolePermissions',
+  'userRoles',
+  'roleInheritance',
+  'permissionPolicies',
+];
+
+// Reference columns, all pointing at the id of the referenced entity
+const FOREIGN_KEYS: Array<[EntityKey, string, EntityKey]> = [
+  ['routerPermissions', 'permissionId', 'permissions'],
+  ['userPermissions', 'permissionId', 'permissions'],
+  ['rolePermissions', 'roleId', 'roles'],
+  ['rolePermissions', 'permissionId', 'permissions'],
+  ['userRoles', 'roleId', 'roles'],
+  ['roleInheritance', 'roleId', 'roles'],
+  ['roleInheritance', 'inheritedRoleId', 'roles'],
+  ['permissionPolicies', 'permissionId', 'permissions'],
+];
+
+const REFERENCE_FIELDS = new Set(FOREIGN_KEYS.map(([, field]) => field));
+
+// Mirrors the @Unique() declarations of the entities
+const UNIQUE_CONSTRAINTS: Array<[EntityKey, string[]]> = [
+  ['permissions', ['name']],
+  ['roles', ['name']],
+  ['rolePermissions', ['roleId', 'permissionId']],
+  ['roleInheritance', ['roleId', 'inheritedRoleId']],
+];
+
+// Tenant scoped rows, unique indexes so that global rows with a NULL tenant collide too
+const UNIQUE_INDEXES: Array<[EntityKey, string[], string]> = [
+  ['routerPermissions', ['route', 'method', 'permissionId', 'effect', 'tenantId'], 'rule'],
+  ['userPermissions', ['userId', 'permissionId', 'effect', 'tenantId'], 'grant'],
+  ['userRoles', ['userId', 'roleId', 'tenantId'], 'assignment'],
+];
+
+// Single column indexes not already covered by a unique constraint
+const INDEXES: Array<[EntityKey, string, string]> = [
+  ['userPermissions', 'permissionId', 'permission'],
+  ['rolePermissions', 'permissionId', 'permission'],
+  ['userRoles', 'roleId', 'role'],
+  ['roleInheritance', 'inheritedRoleId', 'inherited_role'],
+  ['permissionPolicies', 'permissionId', 'permission'],
+];
+
+// AuditLogEntity keeps its own table and column names
+const AUDIT_TABLE = 'audit_logs';
+
+// Name TypeORM gives the PostgreSQL enum type of the audit action column
+const AUDIT_ACTION_TYPE = `${AUDIT_TABLE}_action_enum`;
+
+// Kept next to the migrations so it is committed with them
+export const MIGRATION_SNAPSHOT_FILE = '.permissions-snapshot.json';
+
 @Injectable()
 export class MigrationGeneratorService {
   async generateMigration(name: string, directory = 'src/migrations'): Promise<void> {
@@ -29,36 +118,86 @@ export class MigrationGeneratorService {
       const config = await this.loadConfig();
       console.log('Configuration loaded successfully');
 
+      const snapshot = this.loadSnapshot(directory);
+      const className = this.generateClassName(name);
+
       console.log('Generating migration content...');
-      // Generate migration content
-      const migrationContent = this.generateMigrationContent(config, name);
+      // Diff against the snapshot once a migration has been generated
+      let migrationContent: string;
+      if (snapshot) {
+        const previous: PermissionConfig = { ...config, database: snapshot.database };
+        const changes = this.generateSchemaChanges(previous, config);
+        if (!changes.length) {
+          console.log(`No schema changes since migration ${snapshot.migration}`);
+          return;
+        }
+        migrationContent = this.generateDiffMigrationContent(className, changes);
+      } else {
+        migrationContent = this.generateMigrationContent(config, className);
+      }
       console.log('Migration content generated successfully');
 
       // Generate filename with timestamp
       const timestamp = new Date().getTime();
-      const className = this.generateClassName(name);
       const filename = `${timestamp}-${className}.ts`;
       const filePath = path.join(directory, filename);
       console.log('Writing migration file to:', filePath);
 
       // Write migration file
       fs.writeFileSync(filePath, migrationContent, 'utf8');
+      this.saveSnapshot(directory, config, className);
 
       console.log(`Migration generated successfully at: ${filePath}`);
     } catch (error) {
       console.error('Error generating migration:', error);
+      if (error instanceof MigrationException) {
+        throw error;
+      }
       throw new MigrationException('MIGRATION_FAILED', error.message);
     }
   }
 
+  private loadSnapshot(directory: string): MigrationSnapshot | undefined {
+    const snapshotPath = path.join(directory, MIGRATION_SNAPSHOT_FILE);
+    if (!fs.existsSync(snapshotPath)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(snapshotPath, 'utf8'));
+    } catch (error) {
+      throw new MigrationException(
+        'CONFIG_LOAD_ERROR',
+        `Failed to read migration snapshot ${snapshotPath}: ${error.message}`,
+      );
+    }
+  }
+
+  private saveSnapshot(directory: string, config: PermissionConfig, migration: string): void {
+    const snapshot: MigrationSnapshot = {
+      generatedAt: new Date().toISOString(),
+      migration,
+      database: { type: config.database.type, entities: this.getEntities(config) },
+    };
+    fs.writeFileSync(
+      path.join(directory, MIGRATION_SNAPSHOT_FILE),
+      JSON.stringify(snapshot, null, 2) + '\n',
+      'utf8',
+    );
+  }
+
   private async loadConfig(): Promise<PermissionConfig> {
-    const tsConfigPath = path.join(process.cwd(), 'config', 'permissions.config.ts');
+    const configDir = path.join(process.cwd(), 'config');
     try {
-      const configFileContent = fs.readFileSync(tsConfigPath, 'utf8');
-      const [, fileContent] = configFileContent.split('=');
-      return JSON.parse(fileContent);
+      const loaded = await ConfigLoader.load<PermissionConfig>('permissions', {
+        directory: configDir,
+        exportNames: PERMISSIONS_CONFIG_EXPORTS,
+      });
+      if (!loaded) {
+        throw new ConfigurationException(`No permissions.config file found in ${configDir}`);
+      }
+      return loaded.config;
     } catch (error) {
-      console.error('Error loading configuration file:', error);
+      console.error('Error loading configuration file:', error.message);
       throw new MigrationException('CONFIG_LOAD_ERROR', `Failed to load config: ${error.message}`);
     }
   }
@@ -73,238 +212,395 @@ export class MigrationGeneratorService {
     );
   }
 
-  private generateMigrationContent(config: PermissionConfig, name: string): string {
-    const createTables = this.generateCreateTables(config);
-    const indexes = this.generateIndexes(config);
+  private generateMigrationContent(config: PermissionConfig, className: string): string {
+    const dialect = SqlDialect.for(config.database.type);
+    const entities = this.getEntities(config);
+    const dropTables = [
+      AUDIT_TABLE,
+      ...[...ENTITY_ORDER].reverse().map((key) => entities[key].tableName),
+    ].map((table) => dialect.dropTable(table));
+    const dropTypes = [dialect.dropEnumType(AUDIT_ACTION_TYPE)].filter(Boolean) as string[];
+
+    return this.renderMigration(
+      className,
+      [...this.generateCreateTables(config).split('\n\n'), ...this.generateIndexes(config)],
+      ['// Drop tables in reverse order', ...dropTables, ...dropTypes],
+    );
+  }
+
+  private generateDiffMigrationContent(className: string, changes: SchemaChange[]): string {
+    return this.renderMigration(
+      className,
+      changes.map((change) => change.up),
+      this.generateDownMigration(changes),
+    );
+  }
+
+  private renderMigration(className: string, up: string[], down: string[]): string {
+    const render = (statements: string[]) =>
+      statements.map((statement) => this.toQuery(statement)).join('\n    ');
 
     return `import { MigrationInterface, QueryRunner } from 'typeorm';
 
-export class ${this.generateClassName(name)} implements MigrationInterface {
-  name = '${Date.now()}';
+export class ${className} implements MigrationInterface {
+  name = '${className}';
 
   public async up(queryRunner: QueryRunner): Promise<void> {
-    ${createTables
-      .split('\n\n')
-      .map((table) => `await queryRunner.query(\`\n${table}\n    \`);`)
-      .join('\n\n    ')}
-
-    ${indexes.map((index) => `await queryRunner.query(\`${index}\`);`).join('\n    ')}
+    ${render(up)}
   }
 
   public async down(queryRunner: QueryRunner): Promise<void> {
-    // Drop tables in reverse order
-    await queryRunner.query(\`DROP TABLE IF EXISTS "${config.database.entities.userPermissions.tableName}"\`);
-    await queryRunner.query(\`DROP TABLE IF EXISTS "${config.database.entities.routerPermissions.tableName}"\`);
-    await queryRunner.query(\`DROP TABLE IF EXISTS "${config.database.entities.permissions.tableName}"\`);
+    ${render(down)}
   }
 }`;
   }
 
+  private toQuery(statement: string): string {
+    if (statement.startsWith('//')) {
+      return statement;
+    }
+    // Multi-line table definitions start on their own line
+    const sql = statement.includes('\n')
+      ? `\n${this.escapeSql(statement)}\n    `
+      : this.escapeSql(statement);
+    return `await queryRunner.query(\`${sql}\`);`;
+  }
+
+  private escapeSql(statement: string): string {
+    // Statements are embedded in template literals, MySQL quotes identifiers with backticks
+    return statement.replace(/[`\\]|\$\{/g, (match) => `\\${match}`);
+  }
+
   generateCreateTables(config: PermissionConfig): string {
-    const { database } = config;
+    const dialect = SqlDialect.for(config.database.type);
+    const entities = this.getEntities(config);
 
-    // Convert config fields to required string fields
-    const permissionFields: Record<string, string> = {};
-    const routerPermissionFields: Record<string, string> = {};
-    const userPermissionFields: Record<string, string> = {};
+    // Generate tables in dependency order with converted fields
+    const tables = ENTITY_ORDER.map((key) => {
+      const fields: Record<string, string> = {};
 
-    // Convert permission fields
-    Object.entries(database.entities.permissions.fields).forEach(([key, value]) => {
-      if (value) permissionFields[key] = value;
-    });
+      // Convert config fields to required string fields
+      Object.entries(entities[key].fields).forEach(([field, value]) => {
+        if (value) fields[field] = value;
+      });
 
-    // Convert router permission fields
-    Object.entries(database.entities.routerPermissions.fields).forEach(([key, value]) => {
-      if (value) routerPermissionFields[key] = value;
+      return this.generateTableCreation(
+        entities[key].tableName,
+        fields,
+        this.generateConstraints(key, entities, dialect),
+        dialect,
+      );
     });
 
-    // Convert user permission fields
-    Object.entries(database.entities.userPermissions.fields).forEach(([key, value]) => {
-      if (value) userPermissionFields[key] = value;
+    // The enum type of the audit action column has to exist before its table
+    const types = [dialect.createEnumType(AUDIT_ACTION_TYPE, AUDIT_ACTIONS)].filter(Boolean);
+
+    return [...tables, ...types, this.generateAuditTable(dialect)].join('\n\n');
+  }
+
+  generateAlterTables(oldConfig: PermissionConfig, newConfig: PermissionConfig): string[] {
+    return this.generateSchemaChanges(oldConfig, newConfig).map((change) => change.up);
+  }
+
+  private generateSchemaChanges(
+    oldConfig: PermissionConfig,
+    newConfig: PermissionConfig,
+  ): SchemaChange[] {
+    if (oldConfig.database.type !== newConfig.database.type) {
+      throw new MigrationException(
+        'SCHEMA_MISMATCH',
+        `Cannot migrate from ${oldConfig.database.type} to ${newConfig.database.type}, ` +
+          'generate a full migration for the new database instead',
+      );
+    }
+
+    const dialect = SqlDialect.for(newConfig.database.type);
+    const oldEntities = this.toEntityFields(oldConfig);
+    const newEntities = this.toEntityFields(newConfig);
+
+    // Indexes are dropped before and created after the tables they belong to change,
+    // renamed columns keep their indexes but a mapped or unmapped tenant column changes them
+    const oldIndexes = this.describeIndexes(oldConfig);
+    const newIndexes = this.describeIndexes(newConfig);
+    const sameIndex = (a: IndexDefinition, b: IndexDefinition) =>
+      a.name === b.name && a.table === b.table && a.columns.length === b.columns.length;
+    const removedIndexes = oldIndexes.filter((a) => !newIndexes.some((b) => sameIndex(a, b)));
+    const addedIndexes = newIndexes.filter((a) => !oldIndexes.some((b) => sameIndex(a, b)));
+
+    const changes: SchemaChange[] = removedIndexes.map((index) => ({
+      up: `${dialect.dropIndex(index.name, index.table)};`,
+      down: `${this.createIndex(index, dialect)};`,
+    }));
+
+    // Compare and generate alterations for each entity
+    ENTITY_ORDER.forEach((key) => {
+      changes.push(...this.compareEntities(oldEntities[key], newEntities[key], dialect));
     });
 
-    // Generate tables with converted fields
-    const tables = [
-      this.generateTableCreation(database.entities.permissions.tableName, permissionFields),
-      this.generateTableCreation(
-        database.entities.routerPermissions.tableName,
-        routerPermissionFields,
-      ),
-      this.generateTableCreation(database.entities.userPermissions.tableName, userPermissionFields),
-    ];
+    addedIndexes.forEach((index) =>
+      changes.push({
+        up: `${this.createIndex(index, dialect)};`,
+        down: `${dialect.dropIndex(index.name, index.table)};`,
+      }),
+    );
 
-    return tables.join('\n\n');
+    return changes;
   }
 
-  generateAlterTables(oldConfig: PermissionConfig, newConfig: PermissionConfig): string[] {
-    const alterations: string[] = [];
+  private toEntityFields(config: PermissionConfig): Record<EntityKey, EntityFields> {
+    const result = {} as Record<EntityKey, EntityFields>;
 
     // Convert config fields to required string fields
-    const convertToEntityFields = (config: PermissionConfig): Record<string, EntityFields> => {
-      const result: Record<string, EntityFields> = {};
+    Object.entries(this.getEntities(config)).forEach(([key, entity]) => {
+      const fields: Record<string, string> = {};
+      Object.entries(entity.fields).forEach(([fieldKey, value]) => {
+        if (value) fields[fieldKey] = value;
+      });
 
-      Object.entries(config.database.entities).forEach(([key, entity]) => {
-        const fields: Record<string, string> = {};
-        Object.entries(entity.fields).forEach(([fieldKey, value]) => {
-          if (value) fields[fieldKey] = value;
-        });
+      result[key as EntityKey] = {
+        tableName: entity.tableName,
+        fields,
+      };
+    });
 
-        result[key] = {
-          tableName: entity.tableName,
-          fields,
-        };
-      });
+    return result;
+  }
 
-      return result;
-    };
+  private generateTableCreation(
+    tableName: string,
+    fields: Record<string, string>,
+    constraints: string[],
+    dialect: SqlDialect,
+  ): string {
+    const columns = Object.entries(fields)
+      .map(
+        ([key, value]) => `${dialect.quote(value)} ${this.generateColumnDefinition(key, dialect)}`,
+      )
+      .concat(constraints)
+      .map((line) => `        ${line}`)
+      .join(',\n');
 
-    const oldEntities = convertToEntityFields(oldConfig);
-    const newEntities = convertToEntityFields(newConfig);
+    return `CREATE TABLE ${dialect.quote(tableName)} (\n${columns}\n    )`;
+  }
 
-    // Compare and generate alterations for each entity
-    Object.keys(oldEntities).forEach((key) => {
-      this.compareAndGenerateAlterations(oldEntities[key], newEntities[key], alterations);
+  private generateConstraints(
+    key: EntityKey,
+    entities: DatabaseConfig['entities'],
+    dialect: SqlDialect,
+  ): string[] {
+    const { tableName, fields } = entities[key];
+    const constraints: string[] = [];
+
+    UNIQUE_CONSTRAINTS.filter(([entity]) => entity === key).forEach(([, uniqueFields]) => {
+      // Optional fields such as tenantId may not be mapped
+      const columns = uniqueFields.map((field) => fields[field]).filter(Boolean) as string[];
+      if (columns.length) {
+        constraints.push(dialect.unique(`UQ_${tableName}_${columns.join('_')}`, columns));
+      }
     });
 
-    return alterations;
+    FOREIGN_KEYS.filter(([entity, field]) => entity === key && fields[field]).forEach(
+      ([, field, referenced]) => {
+        const column = fields[field] as string;
+        const target = entities[referenced];
+        constraints.push(
+          dialect.foreignKey(
+            `FK_${tableName}_${column}`,
+            column,
+            target.tableName,
+            target.fields.id || 'id',
+          ),
+        );
+      },
+    );
+
+    return constraints;
   }
 
-  private generateTableCreation(tableName: string, fields: Record<string, string>): string {
-    const columns = Object.entries(fields)
-      .map(([key, value]) => {
-        let type = 'varchar';
-        let constraints = '';
-
-        // Determine type and constraints based on field key
-        if (key === 'id') {
-          type = 'uuid';
-          constraints = 'PRIMARY KEY DEFAULT gen_random_uuid()';
-        } else if (key.includes('At')) {
-          type = 'timestamp';
-          constraints = 'NOT NULL DEFAULT CURRENT_TIMESTAMP';
-        } else if (key === 'isActive' || key.includes('is_active')) {
-          type = 'boolean';
-          constraints = 'NOT NULL DEFAULT true';
-        } else if (key === 'level') {
-          type = 'integer';
-          constraints = 'NOT NULL DEFAULT 0';
-        } else if (key === 'name') {
-          type = 'varchar';
-          constraints = 'NOT NULL';
-        } else {
-          type = 'varchar';
-        }
+  private generateAuditTable(dialect: SqlDialect): string {
+    // Column types match the ones EntityMapper.applyDialect() gives AuditLogEntity
+    const columns: Record<string, string> = {
+      id: `${dialect.columnType('uuid')} PRIMARY KEY DEFAULT ${dialect.uuidDefault()}`,
+      userId: `${dialect.columnType('string')} NOT NULL`,
+      tenantId: dialect.columnType('string'),
+      action: `${dialect.enumColumn(AUDIT_ACTION_TYPE, 'action', AUDIT_ACTIONS)} NOT NULL`,
+      target: `${dialect.columnType('string')} NOT NULL`,
+      result: `${dialect.columnType('boolean')} NOT NULL`,
+      metadata: `${dialect.columnType('json')} NOT NULL`,
+      timestamp: `${dialect.columnType('timestamp')} NOT NULL DEFAULT ${dialect.currentTimestamp()}`,
+    };
 
-        return `        "${value}" ${type}${constraints ? ' ' + constraints : ''}`;
-      })
+    const lines = Object.entries(columns)
+      .map(([column, definition]) => `        ${dialect.quote(column)} ${definition}`)
       .join(',\n');
 
-    return `CREATE TABLE "${tableName}" (\n${columns}\n    )`;
+    return `CREATE TABLE ${dialect.quote(AUDIT_TABLE)} (\n${lines}\n    )`;
   }
 
-  private compareAndGenerateAlterations(
+  private columnKind(key: string): ColumnKind {
+    if (key === 'id' || key === 'level' || REFERENCE_FIELDS.has(key)) return 'integer';
+    if (key.includes('At')) return 'timestamp';
+    if (key === 'isActive') return 'boolean';
+    if (key === 'conditions') return 'json';
+    if (key === 'method' || key === 'effect') return 'code';
+    return 'string';
+  }
+
+  private generateColumnDefinition(key: string, dialect: SqlDialect): string {
+    const type = dialect.columnType(this.columnKind(key));
+
+    // Determine constraints based on field key
+    if (key === 'id') {
+      return dialect.primaryKey();
+    }
+    if (key === 'expiresAt' || key === 'tenantId' || key === 'description') {
+      return type;
+    }
+    if (key.includes('At')) {
+      return `${type} NOT NULL DEFAULT ${dialect.currentTimestamp()}`;
+    }
+    if (key === 'isActive') {
+      return `${type} NOT NULL DEFAULT ${dialect.booleanLiteral(true)}`;
+    }
+    if (key === 'level') {
+      return `${type} NOT NULL DEFAULT 0`;
+    }
+    if (key === 'effect') {
+      return `${type} NOT NULL DEFAULT 'allow'`;
+    }
+    return `${type} NOT NULL`;
+  }
+
+  private compareEntities(
     oldEntity: EntityFields,
     newEntity: EntityFields,
-    alterations: string[],
-  ): void {
+    dialect: SqlDialect,
+  ): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const { tableName } = newEntity;
+
     // Handle table rename
-    if (oldEntity.tableName !== newEntity.tableName) {
-      alterations.push(`ALTER TABLE "${oldEntity.tableName}" RENAME TO "${newEntity.tableName}";`);
+    if (oldEntity.tableName !== tableName) {
+      changes.push({
+        up: `${dialect.renameTable(oldEntity.tableName, tableName)};`,
+        down: `${dialect.renameTable(tableName, oldEntity.tableName)};`,
+      });
     }
 
-    // Handle column changes
-    const oldFields = new Set(Object.values(oldEntity.fields));
-    const newFields = new Set(Object.values(newEntity.fields));
-
-    // Added columns
-    for (const [key, value] of Object.entries(newEntity.fields)) {
-      if (!oldFields.has(value)) {
-        let type = 'varchar';
-        if (key === 'id') type = 'uuid';
-        if (key.includes('At')) type = 'timestamp';
-        if (key === 'isActive') type = 'boolean';
-        if (key === 'level') type = 'integer';
+    // Columns are matched by field key, so a new column name is a rename
+    for (const [key, column] of Object.entries(newEntity.fields)) {
+      const previous = oldEntity.fields[key];
+      if (previous === column) continue;
 
-        alterations.push(`ALTER TABLE "${newEntity.tableName}" ADD COLUMN "${value}" ${type};`);
+      if (!previous) {
+        this.assertNotKeyColumn(tableName, key, 'add');
+      }
+      if (previous) {
+        changes.push({
+          up: `${dialect.renameColumn(tableName, previous, column)};`,
+          down: `${dialect.renameColumn(tableName, column, previous)};`,
+        });
+      } else {
+        changes.push({
+          up: `${dialect.addColumn(tableName, column, this.generateAddedColumnDefinition(key, dialect))};`,
+          down: `${dialect.dropColumn(tableName, column)};`,
+        });
       }
     }
 
-    // Removed columns
-    for (const value of oldFields) {
-      if (!newFields.has(value)) {
-        alterations.push(`ALTER TABLE "${newEntity.tableName}" DROP COLUMN "${value}";`);
-      }
+    // Removed columns are restored with the type they were created with, not their data
+    for (const [key, column] of Object.entries(oldEntity.fields)) {
+      if (newEntity.fields[key]) continue;
+
+      this.assertNotKeyColumn(tableName, key, 'drop');
+      changes.push({
+        up: `${dialect.dropColumn(tableName, column)};`,
+        down: `${dialect.addColumn(tableName, column, this.generateAddedColumnDefinition(key, dialect))};`,
+      });
     }
+
+    return changes;
   }
 
-  generateIndexes(config: PermissionConfig): string[] {
-    const indexes: string[] = [];
-    const { database } = config;
-
-    // Add indexes for permissions table
-    const permissionNameField = database.entities.permissions.fields.name;
-    if (permissionNameField) {
-      indexes.push(
-        `CREATE INDEX "IDX_${database.entities.permissions.tableName}_name" ON "${database.entities.permissions.tableName}" ("${permissionNameField}");`,
+  // Primary keys and foreign keys cannot be added or dropped by ALTER TABLE on every database
+  private assertNotKeyColumn(tableName: string, key: string, operation: 'add' | 'drop'): void {
+    if (key === 'id' || REFERENCE_FIELDS.has(key)) {
+      throw new MigrationException(
+        'SCHEMA_MISMATCH',
+        `Cannot ${operation} the ${key} column of ${tableName}, key columns can only be renamed`,
       );
     }
+  }
 
-    // Add indexes for router permissions table
-    const routeField = database.entities.routerPermissions.fields.route;
-    if (routeField) {
-      indexes.push(
-        `CREATE INDEX "IDX_${database.entities.routerPermissions.tableName}_route" ON "${database.entities.routerPermissions.tableName}" ("${routeField}");`,
-      );
-    }
+  private generateAddedColumnDefinition(key: string, dialect: SqlDialect): string {
+    const definition = this.generateColumnDefinition(key, dialect);
 
-    // Add indexes for user permissions table
-    const userIdField = database.entities.userPermissions.fields.userId;
-    if (userIdField) {
-      indexes.push(
-        `CREATE INDEX "IDX_${database.entities.userPermissions.tableName}_user" ON "${database.entities.userPermissions.tableName}" ("${userIdField}");`,
-      );
-    }
+    // Existing rows have no value for a NOT NULL column without a default
+    return definition.includes('NOT NULL') && !definition.includes('DEFAULT')
+      ? dialect.columnType(this.columnKind(key))
+      : definition;
+  }
+
+  generateIndexes(config: PermissionConfig): string[] {
+    const dialect = SqlDialect.for(config.database.type);
 
-    return indexes;
+    return this.describeIndexes(config).map((index) => `${this.createIndex(index, dialect)};`);
   }
 
-  private generateDownMigration(
-    oldConfig: PermissionConfig,
-    alterations: string[],
-    indexes: string[],
-  ): string {
-    const downStatements: string[] = [];
+  private createIndex(index: IndexDefinition, dialect: SqlDialect): string {
+    const { name, table, columns, unique, nullable } = index;
+    return dialect.createIndex(name, table, columns, { unique, nullable });
+  }
 
-    // Revert indexes
-    indexes.forEach((index) => {
-      const match = index.match(/CREATE INDEX "([^"]+)"/);
-      if (match) {
-        downStatements.push(`DROP INDEX "${match[1]}";`);
-      }
+  private describeIndexes(config: PermissionConfig): IndexDefinition[] {
+    const entities = this.getEntities(config);
+
+    const indexes = INDEXES.filter(([key, field]) => entities[key].fields[field]).map(
+      ([key, field, suffix]) => {
+        const { tableName, fields } = entities[key];
+        return {
+          name: `IDX_${tableName}_${suffix}`,
+          table: tableName,
+          columns: [fields[field] as string],
+        };
+      },
+    );
+
+    const uniqueIndexes = UNIQUE_INDEXES.map(([key, uniqueFields, suffix]) => {
+      const { tableName, fields } = entities[key];
+      // Optional fields such as tenantId may not be mapped
+      const columns = uniqueFields.map((field) => fields[field]).filter(Boolean) as string[];
+      return {
+        name: `UQ_${tableName}_${suffix}`,
+        table: tableName,
+        columns,
+        unique: true,
+        nullable: fields.tenantId ? [fields.tenantId] : [],
+      };
     });
 
-    // Revert alterations in reverse order
-    alterations.reverse().forEach((alter) => {
-      if (alter.includes('ADD COLUMN')) {
-        const match = alter.match(/ADD COLUMN "([^"]+)"/);
-        if (match) {
-          downStatements.push(
-            `ALTER TABLE "${oldConfig.database.entities.permissions.tableName}" DROP COLUMN "${match[1]}";`,
-          );
-        }
-      } else if (alter.includes('DROP COLUMN')) {
-        // We can't restore dropped columns without knowing their types
-        downStatements.push('-- Cannot automatically restore dropped columns');
-      } else if (alter.includes('RENAME TO')) {
-        const match = alter.match(/RENAME TO "([^"]+)"/);
-        if (match) {
-          downStatements.push(
-            `ALTER TABLE "${match[1]}" RENAME TO "${oldConfig.database.entities.permissions.tableName}";`,
-          );
-        }
-      }
+    return [
+      ...uniqueIndexes,
+      ...indexes,
+      { name: `IDX_${AUDIT_TABLE}_user`, table: AUDIT_TABLE, columns: ['userId'] },
+      { name: `IDX_${AUDIT_TABLE}_timestamp`, table: AUDIT_TABLE, columns: ['timestamp'] },
+    ];
+  }
+
+  private getEntities(config: PermissionConfig): DatabaseConfig['entities'] {
+    // Merged like ConfigService does, configs published before role and policy support lack
+    // those entities and mapping a few columns keeps the default names of the others
+    const entities = {} as DatabaseConfig['entities'];
+    ENTITY_ORDER.forEach((key) => {
+      const defaults = defaultConfig.database.entities[key];
+      const entity = config.database.entities?.[key];
+      entities[key] = { ...defaults, ...entity, fields: { ...defaults.fields, ...entity?.fields } };
     });
+    return entities;
+  }
 
-    return downStatements.map((stmt) => `await queryRunner.query(\`${stmt}\`);`).join('\n    ');
+  private generateDownMigration(changes: SchemaChange[]): string[] {
+    // Revert changes in reverse order
+    return [...changes].reverse().map((change) => change.down);
   }
 }
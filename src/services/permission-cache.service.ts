@@ -0,0 +1,106 @@
+import { Inject, Injectable, OnModuleDestroy } from '@nestjs/common';
+import { PERMISSION_CACHE_STORE } from '../constants';
+import {
+  CacheInvalidationEvent,
+  CacheInvalidationListener,
+  PermissionCacheStore,
+} from '../interfaces/cache.interface';
+import { ConfigService } from './config.service';
+
+const USER_PREFIX = 'user:';
+const ROLE_PREFIX = 'role:';
+const POLICY_PREFIX = 'policy:';
+
+@Injectable()
+export class PermissionCacheService implements OnModuleDestroy {
+  constructor(
+    @Inject(PERMISSION_CACHE_STORE)
+    private readonly store: PermissionCacheStore,
+    private readonly configService: ConfigService,
+  ) {}
+
+  get enabled(): boolean {
+    return this.configService.getConfig().security.enableCaching;
+  }
+
+  get ttl(): number {
+    return this.configService.getConfig().security.cacheTimeout;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+    return this.store.get<T>(key);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds = this.ttl): Promise<void> {
+    // Never keep an entry longer than the configured cache timeout
+    const ttl = Math.min(ttlSeconds, this.ttl);
+    if (!this.enabled || ttl <= 0) {
+      return;
+    }
+    await this.store.set(key, value, ttl);
+  }
+
+  userKey(userId: string, suffix = 'permissions'): string {
+    return `${USER_PREFIX}${userId}:${suffix}`;
+  }
+
+  roleKey(role: string, suffix = 'permissions'): string {
+    return `${ROLE_PREFIX}${role}:${suffix}`;
+  }
+
+  policyKey(permission: string): string {
+    return `${POLICY_PREFIX}${permission}`;
+  }
+
+  async invalidateUser(userId: string): Promise<void> {
+    await this.store.deleteByPrefix(`${USER_PREFIX}${userId}:`);
+    await this.store.publish({ scope: 'user', userId });
+  }
+
+  async invalidateUsers(): Promise<void> {
+    await this.store.deleteByPrefix(USER_PREFIX);
+    await this.store.publish({ scope: 'users' });
+  }
+
+  async invalidateRoles(): Promise<void> {
+    // Role permissions feed every user's effective permissions
+    await this.store.deleteByPrefix(ROLE_PREFIX);
+    await this.store.deleteByPrefix(USER_PREFIX);
+    await this.store.publish({ scope: 'roles' });
+  }
+
+  async invalidateHierarchy(): Promise<void> {
+    await this.store.deleteByPrefix(ROLE_PREFIX);
+    await this.store.deleteByPrefix(USER_PREFIX);
+    await this.store.publish({ scope: 'hierarchy' });
+  }
+
+  async invalidateRoutes(): Promise<void> {
+    await this.store.publish({ scope: 'routes' });
+  }
+
+  async invalidatePolicies(): Promise<void> {
+    await this.store.deleteByPrefix(POLICY_PREFIX);
+    await this.store.publish({ scope: 'policies' });
+  }
+
+  async invalidateAll(): Promise<void> {
+    await this.store.clear();
+    await this.store.publish({ scope: 'all' });
+  }
+
+  onInvalidate(listener: CacheInvalidationListener): () => void {
+    return this.store.subscribe(listener);
+  }
+
+  matches(event: CacheInvalidationEvent, ...scopes: CacheInvalidationEvent['scope'][]): boolean {
+    return event.scope === 'all' || scopes.includes(event.scope);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.store.close?.();
+  }
+}
@@ -0,0 +1,124 @@
+import { DataSource } from 'typeorm';
+import { PermissionExpiryService } from './permission-expiry.service';
+import { UserPermissionEntity } from '../models/user-permission.entity';
+import { UserRoleEntity } from '../models/user-role.entity';
+import { AuditLogEntity } from '../models/audit-log.entity';
+import { InvalidPermissionException } from '../exceptions/permission.exceptions';
+import {
+  createTestDataSource,
+  createTestServices,
+  seedPermissions,
+  seedRole,
+  TestServices,
+} from '../testing/test-module';
+
+describe('PermissionExpiryService', () => {
+  let dataSource: DataSource;
+  let services: TestServices;
+  let expiryService: PermissionExpiryService;
+
+  const past = () => new Date(Date.now() - 60_000);
+  const future = () => new Date(Date.now() + 60_000);
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    await seedPermissions(dataSource, ['posts.read', 'posts.write']);
+    await seedRole(dataSource, 'editor', 20, ['posts.write']);
+    services = await createTestServices(dataSource);
+    expiryService = new PermissionExpiryService(
+      dataSource.getRepository(UserPermissionEntity),
+      dataSource.getRepository(UserRoleEntity),
+      services.configService,
+      services.auditService,
+      services.permissionService,
+    );
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    expiryService.onModuleDestroy();
+    await dataSource.destroy();
+  });
+
+  const permissionNames = async (userId: string) =>
+    (await services.permissionService.getUserPermissions(userId, { cache: false }))
+      .map((p) => p.name)
+      .sort();
+
+  it('ignores expired grants and role assignments before they are swept', async () => {
+    const { permissionService } = services;
+    await permissionService.grantPermission('u1', 'posts.read', 'admin', { expiresAt: past() });
+    await permissionService.assignRole('u1', 'editor', 'admin', { expiresAt: past() });
+    expect(await permissionNames('u1')).toEqual([]);
+
+    await permissionService.grantPermission('u2', 'posts.read', 'admin', { expiresAt: future() });
+    expect(await permissionNames('u2')).toEqual(['posts.read']);
+  });
+
+  it('does not serve cached permissions past the earliest expiry', async () => {
+    const { permissionService } = services;
+    const expiresAt = future();
+    await permissionService.grantPermission('u1', 'posts.read', 'admin', { expiresAt });
+
+    expect(await permissionService.getUserPermissions('u1')).toHaveLength(1);
+    jest.useFakeTimers({ now: expiresAt.getTime() + 1, advanceTimers: true });
+    expect(await permissionService.getUserPermissions('u1')).toHaveLength(0);
+  });
+
+  it('deactivates expired grants and audits the revocation', async () => {
+    const { permissionService } = services;
+    await permissionService.grantPermission('u1', 'posts.read', 'admin', { expiresAt: past() });
+    await permissionService.grantPermission('u1', 'posts.write', 'admin', { expiresAt: future() });
+    await permissionService.assignRole('u2', 'editor', 'admin', { expiresAt: past() });
+
+    await expect(expiryService.sweepExpiredGrants()).resolves.toEqual({
+      permissions: 1,
+      roles: 1,
+    });
+    await expect(expiryService.sweepExpiredGrants()).resolves.toEqual({
+      permissions: 0,
+      roles: 0,
+    });
+
+    const grants = await dataSource.getRepository(UserPermissionEntity).find();
+    expect(grants.map((g) => [g.permission_id, g.is_active]).sort()).toEqual([
+      [1, false],
+      [2, true],
+    ]);
+
+    const revocations = await dataSource
+      .getRepository(AuditLogEntity)
+      .find({ where: { action: 'revoke', userId: 'system' } });
+    expect(revocations.map((entry) => entry.target).sort()).toEqual(['posts.read', 'role:editor']);
+  });
+
+  it('explains expired grants before and after the sweep', async () => {
+    const { permissionService } = services;
+    await permissionService.grantPermission('u1', 'posts.read', 'admin', { expiresAt: past() });
+    await permissionService.assignRole('u1', 'editor', 'admin', { expiresAt: past() });
+
+    const expiredGrants = async () =>
+      (await permissionService.explain('u1', '/posts', 'GET')).expiredGrants
+        .map((grant) => [grant.permission, grant.source])
+        .sort();
+    const expected = [
+      ['posts.read', 'direct'],
+      ['posts.write', 'role'],
+    ];
+
+    expect(await expiredGrants()).toEqual(expected);
+    await expiryService.sweepExpiredGrants();
+    expect(await expiredGrants()).toEqual(expected);
+    expect((await permissionService.explain('u1', '/posts', 'GET')).grants).toEqual([]);
+  });
+
+  it('grants for a duration', async () => {
+    const { permissionService } = services;
+    const grant = await permissionService.grantPermissionFor('u1', 'posts.read', 3600);
+
+    expect(grant.expires_at!.getTime()).toBeGreaterThan(Date.now() + 3500_000);
+    await expect(
+      permissionService.grantPermissionFor('u1', 'posts.read', 0),
+    ).rejects.toBeInstanceOf(InvalidPermissionException);
+  });
+});
@@ -0,0 +1,114 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { UserPermissionEntity } from '../models/user-permission.entity';
+import { UserRoleEntity } from '../models/user-role.entity';
+import { ConfigService } from './config.service';
+import { AuditService } from './audit.service';
+import { PermissionService } from './permission.service';
+
+export interface ExpirySweepResult {
+  permissions: number;
+  roles: number;
+}
+
+@Injectable()
+export class PermissionExpiryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PermissionExpiryService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(
+    @InjectRepository(UserPermissionEntity)
+    private readonly userPermissionRepository: Repository<UserPermissionEntity>,
+    @InjectRepository(UserRoleEntity)
+    private readonly userRoleRepository: Repository<UserRoleEntity>,
+    private readonly configService: ConfigService,
+    private readonly auditService: AuditService,
+    private readonly permissionService: PermissionService,
+  ) {}
+
+  onModuleInit(): void {
+    const interval = this.configService.getConfig().permissions.expirySweepInterval;
+    if (!interval || interval <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sweepExpiredGrants().catch((error) =>
+        this.logger.error(`Expired grant sweep failed: ${error.message}`, error.stack),
+      );
+    }, interval * 1000);
+
+    // Do not keep the process alive just for the sweeper
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async sweepExpiredGrants(): Promise<ExpirySweepResult> {
+    // Skip a tick if the previous sweep is still running
+    if (this.sweeping) {
+      return { permissions: 0, roles: 0 };
+    }
+
+    this.sweeping = true;
+    try {
+      const now = new Date();
+      const permissions = await this.revokeExpiredPermissions(now);
+      const roles = await this.revokeExpiredRoles(now);
+      return { permissions, roles };
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async revokeExpiredPermissions(now: Date): Promise<number> {
+    const expired = await this.userPermissionRepository.find({
+      where: { is_active: true, expires_at: LessThanOrEqual(now) },
+      relations: ['permission'],
+    });
+
+    for (const grant of expired) {
+      grant.is_active = false;
+      await this.userPermissionRepository.save(grant);
+      await this.permissionService.clearUserCache(grant.user_id);
+      await this.auditService.logPermissionChange(
+        'system',
+        grant.permission?.name ?? String(grant.permission_id),
+        'revoke',
+        grant.user_id,
+        { reason: 'expired', expiresAt: grant.expires_at },
+      );
+    }
+
+    return expired.length;
+  }
+
+  private async revokeExpiredRoles(now: Date): Promise<number> {
+    const expired = await this.userRoleRepository.find({
+      where: { is_active: true, expires_at: LessThanOrEqual(now) },
+      relations: ['role'],
+    });
+
+    for (const assignment of expired) {
+      assignment.is_active = false;
+      await this.userRoleRepository.save(assignment);
+      await this.permissionService.clearUserCache(assignment.user_id);
+      await this.auditService.logPermissionChange(
+        'system',
+        `role:${assignment.role?.name ?? assignment.role_id}`,
+        'revoke',
+        assignment.user_id,
+        { reason: 'expired', expiresAt: assignment.expires_at },
+      );
+    }
+
+    return expired.length;
+  }
+}
@@ -0,0 +1,344 @@
+import { DataSource } from 'typeorm';
+import { PermissionService } from './permission.service';
+import {
+  InvalidPermissionException,
+  RoleNotFoundException,
+  ValidationException,
+} from '../exceptions/permission.exceptions';
+import { RouterPermissionInput } from '../interfaces/router.interface';
+import { AuditLogEntity } from '../models/audit-log.entity';
+import { RouterPermissionEntity } from '../models/router-permission.entity';
+import { UserPermissionEntity } from '../models/user-permission.entity';
+import {
+  createTestDataSource,
+  createTestServices,
+  seedPermissions,
+  seedRole,
+  TestServices,
+} from '../testing/test-module';
+
+describe('PermissionService', () => {
+  let dataSource: DataSource;
+  let services: TestServices;
+  let permissionService: PermissionService;
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    await seedPermissions(dataSource, ['posts.read', 'posts.write', 'posts.delete']);
+    services = await createTestServices(dataSource);
+    permissionService = services.permissionService;
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  const permissionNames = async (userId: string, tenantId?: string) =>
+    (await permissionService.getUserPermissions(userId, { tenantId })).map((p) => p.name).sort();
+
+  // Entries share the timestamp's second, so tests compare them in any order
+  const auditEntries = () => dataSource.getRepository(AuditLogEntity).find();
+
+  describe('grants', () => {
+    it('grants, revokes and audits both', async () => {
+      await permissionService.grantPermission('u1', 'posts.read', 'admin');
+      expect(await permissionNames('u1')).toEqual(['posts.read']);
+
+      await expect(permissionService.revokePermission('u1', 'posts.read', 'admin')).resolves.toBe(
+        true,
+      );
+      await expect(permissionService.revokePermission('u1', 'posts.read', 'admin')).resolves.toBe(
+        false,
+      );
+      expect(await permissionNames('u1')).toEqual([]);
+
+      const entries = await auditEntries();
+      expect(
+        entries.map((e) => [e.userId, e.action, e.target, e.metadata.targetUserId]).sort(),
+      ).toEqual([
+        ['admin', 'grant', 'posts.read', 'u1'],
+        ['admin', 'revoke', 'posts.read', 'u1'],
+      ]);
+    });
+
+    it('refreshes an existing grant instead of duplicating it', async () => {
+      await permissionService.grantPermission('u1', 'posts.read', 'admin');
+      const expiresAt = new Date(Date.now() + 60_000);
+      await permissionService.grantPermission('u1', 'posts.read', 'admin', { expiresAt });
+
+      const grants = await dataSource.getRepository(UserPermissionEntity).find();
+      expect(grants).toHaveLength(1);
+      expect(grants[0].expires_at).toEqual(expiresAt);
+    });
+
+    it('reactivates revoked grants and keeps denials next to grants', async () => {
+      await permissionService.grantPermission('u1', 'posts.read', 'admin');
+      await permissionService.revokePermission('u1', 'posts.read', 'admin');
+      await permissionService.grantPermission('u1', 'posts.read', 'admin');
+      await permissionService.denyPermission('u1', 'posts.read', 'admin');
+      await permissionService.revokePermission('u1', 'posts.read', 'admin', { effect: 'deny' });
+
+      const grants = await dataSource.getRepository(UserPermissionEntity).find();
+      expect(grants.map((g) => [g.effect, g.is_active]).sort()).toEqual([
+        ['allow', true],
+        ['deny', false],
+      ]);
+      expect(await permissionNames('u1')).toEqual(['posts.read']);
+    });
+
+    it('grants in bulk within one transaction', async () => {
+      await expect(
+        permissionService.bulkGrant(
+          [
+            { userId: 'u1', permission: 'posts.read' },
+            { userId: 'u2', permission: 'posts.unknown' },
+          ],
+          'admin',
+        ),
+      ).rejects.toBeInstanceOf(InvalidPermissionException);
+      expect(await dataSource.getRepository(UserPermissionEntity).count()).toBe(0);
+      expect(await auditEntries()).toEqual([]);
+
+      await permissionService.bulkGrant(
+        [
+          { userId: 'u1', permission: 'posts.read' },
+          { userId: 'u2', permission: 'posts.write' },
+        ],
+        'admin',
+      );
+      expect(await permissionNames('u2')).toEqual(['posts.write']);
+    });
+
+    it('ignores grants of deactivated permissions', async () => {
+      await permissionService.grantPermission('u1', 'posts.read', 'admin');
+      await expect(permissionService.validateUserPermissions('u1', ['posts.read'])).resolves.toBe(
+        true,
+      );
+
+      await permissionService.deactivatePermission('posts.read', 'admin');
+      await expect(permissionService.validateUserPermissions('u1', ['posts.read'])).resolves.toBe(
+        false,
+      );
+      const trace = await permissionService.explain('u1', '/posts', 'GET', {
+        requiredPermissions: ['posts.read'],
+      });
+      expect(trace.grants).toEqual([]);
+    });
+
+    it('refuses to grant inactive permissions', async () => {
+      await permissionService.deactivatePermission('posts.delete', 'admin');
+
+      await expect(
+        permissionService.grantPermission('u1', 'posts.delete', 'admin'),
+      ).rejects.toBeInstanceOf(InvalidPermissionException);
+    });
+  });
+
+  describe('permission management', () => {
+    it('creates, renames and deactivates permissions with an audit trail', async () => {
+      await permissionService.createPermission({ name: 'posts.publish', level: 2 }, 'admin');
+      await expect(
+        permissionService.createPermission({ name: 'posts.publish' }, 'admin'),
+      ).rejects.toBeInstanceOf(InvalidPermissionException);
+
+      const renamed = await permissionService.updatePermission(
+        'posts.publish',
+        { name: 'posts.release' },
+        'admin',
+      );
+      expect(renamed).toMatchObject({ name: 'posts.release', level: 2, is_active: true });
+
+      await permissionService.deactivatePermission('posts.release', 'admin');
+      const entries = await auditEntries();
+      expect(entries.map((e) => e.metadata.operation).sort()).toEqual([
+        'create',
+        'deactivate',
+        'update',
+      ]);
+      const update = entries.find((e) => e.metadata.operation === 'update');
+      expect(update?.metadata.previous).toMatchObject({ name: 'posts.publish' });
+    });
+  });
+
+  describe('roles', () => {
+    beforeEach(async () => {
+      await seedRole(dataSource, 'editor', 20, ['posts.read', 'posts.write']);
+      await services.roleHierarchyService.loadHierarchy();
+    });
+
+    it('grants the permissions of assigned roles', async () => {
+      await permissionService.assignRole('u1', 'editor', 'admin');
+
+      expect(await permissionNames('u1')).toEqual(['posts.read', 'posts.write']);
+      expect(await permissionService.getUserRoles('u1')).toEqual(['editor']);
+      expect(await permissionService.hasRole('u1', 'editor')).toBe(true);
+    });
+
+    it('merges role and direct grants', async () => {
+      await permissionService.assignRole('u1', 'editor', 'admin');
+      await permissionService.grantPermission('u1', 'posts.delete', 'admin');
+
+      expect(await permissionNames('u1')).toEqual(['posts.delete', 'posts.read', 'posts.write']);
+    });
+
+    it('removes the permissions of unassigned roles', async () => {
+      await permissionService.assignRole('u1', 'editor', 'admin');
+
+      await expect(permissionService.unassignRole('u1', 'editor', 'admin')).resolves.toBe(true);
+      await expect(permissionService.unassignRole('u1', 'editor', 'admin')).resolves.toBe(false);
+      expect(await permissionNames('u1')).toEqual([]);
+    });
+
+    it('reactivates revoked assignments', async () => {
+      await permissionService.assignRole('u1', 'editor', 'admin');
+      await permissionService.unassignRole('u1', 'editor', 'admin');
+      await permissionService.assignRole('u1', 'editor', 'admin');
+
+      expect(await permissionService.getUserRoleAssignments('u1')).toHaveLength(1);
+      expect(await permissionService.getUserRoles('u1')).toEqual(['editor']);
+    });
+
+    it('manages roles and their permissions with an audit trail', async () => {
+      await permissionService.createRole({ name: 'author', level: 10 }, 'admin');
+      await expect(
+        permissionService.createRole({ name: 'author' }, 'admin'),
+      ).rejects.toBeInstanceOf(ValidationException);
+      await permissionService.assignRole('u1', 'author', 'admin');
+      expect(await permissionNames('u1')).toEqual([]);
+
+      await permissionService.grantRolePermission('author', 'posts.write', 'admin');
+      await permissionService.grantRolePermission('author', 'posts.write', 'admin');
+      expect(await permissionNames('u1')).toEqual(['posts.write']);
+      expect(await permissionService.getRolePermissions('author')).toHaveLength(1);
+
+      await expect(
+        permissionService.revokeRolePermission('author', 'posts.write', 'admin'),
+      ).resolves.toBe(true);
+      await expect(
+        permissionService.revokeRolePermission('author', 'posts.write', 'admin'),
+      ).resolves.toBe(false);
+      expect(await permissionNames('u1')).toEqual([]);
+
+      const entries = await auditEntries();
+      expect(
+        entries
+          .filter((e) => e.action === 'modify')
+          .map((e) => [e.target, e.metadata.operation])
+          .sort(),
+      ).toEqual([
+        ['posts.write', 'grant-role-permission'],
+        ['posts.write', 'grant-role-permission'],
+        ['posts.write', 'revoke-role-permission'],
+        ['role:author', 'create-role'],
+      ]);
+    });
+
+    it('denies permissions through a role', async () => {
+      await permissionService.createRole({ name: 'intern', level: 5 }, 'admin');
+      await permissionService.assignRole('u1', 'intern', 'admin');
+      await permissionService.grantPermission('u1', 'posts.write', 'admin');
+
+      await permissionService.grantRolePermission('intern', 'posts.write', 'admin', {
+        effect: 'deny',
+      });
+      expect(await permissionNames('u1')).toEqual([]);
+      await permissionService.grantRolePermission('intern', 'posts.write', 'admin');
+      expect(await permissionNames('u1')).toEqual(['posts.write']);
+      expect(await permissionService.getRolePermissions('intern')).toMatchObject([
+        { effect: 'allow' },
+      ]);
+    });
+
+    it('updates the hierarchy when roles change', async () => {
+      await permissionService.createRole({ name: 'author', level: 10 }, 'admin');
+      expect(services.roleHierarchyService.getHierarchy().author).toEqual({
+        level: 10,
+        inherits: [],
+      });
+
+      await permissionService.assignRole('u1', 'editor', 'admin');
+      expect(await permissionNames('u1')).toEqual(['posts.read', 'posts.write']);
+      await permissionService.updateRole('editor', { level: 25 }, 'admin');
+      expect(services.roleHierarchyService.getHierarchy().editor.level).toBe(25);
+
+      await permissionService.deactivateRole('editor', 'admin');
+      expect(services.roleHierarchyService.getHierarchy().editor).toBeUndefined();
+      expect(await permissionNames('u1')).toEqual([]);
+      await expect(
+        permissionService.grantRolePermission('editor', 'posts.read', 'admin'),
+      ).rejects.toBeInstanceOf(RoleNotFoundException);
+    });
+
+    it('rejects unknown roles', async () => {
+      await expect(permissionService.assignRole('u1', 'ghost', 'admin')).rejects.toBeInstanceOf(
+        RoleNotFoundException,
+      );
+    });
+  });
+
+  describe('route rules', () => {
+    const ruleNames = async (route: string, method = 'GET') =>
+      (await permissionService.getRoutePermissions(route, method)).map((rp) => rp.permission.name);
+
+    it('keeps the compiled snapshot when caching is disabled', async () => {
+      await dataSource.destroy();
+      dataSource = await createTestDataSource();
+      await seedPermissions(dataSource, ['posts.read', 'posts.write']);
+      services = await createTestServices(dataSource, { securityConfig: { enableCaching: false } });
+      permissionService = services.permissionService;
+      await permissionService.createRouterPermission(
+        { route: '/posts', method: 'GET', permission: 'posts.read' },
+        'admin',
+      );
+
+      const find = jest.spyOn(dataSource.getRepository(RouterPermissionEntity), 'find');
+      expect(await ruleNames('/posts')).toEqual(['posts.read']);
+      expect(await ruleNames('/posts')).toEqual(['posts.read']);
+      expect(find).toHaveBeenCalledTimes(1);
+
+      await permissionService.createRouterPermission(
+        { route: '/posts', method: 'GET', permission: 'posts.write' },
+        'admin',
+      );
+      expect((await ruleNames('/posts')).sort()).toEqual(['posts.read', 'posts.write']);
+      expect(find).toHaveBeenCalledTimes(2);
+    });
+
+    it('reactivates deactivated rules', async () => {
+      const input: RouterPermissionInput = {
+        route: '/posts',
+        method: 'GET',
+        permission: 'posts.read',
+      };
+      const rule = await permissionService.createRouterPermission(input, 'admin');
+      await permissionService.deactivateRouterPermission(rule.id, 'admin');
+      expect(await ruleNames('/posts')).toEqual([]);
+
+      await expect(permissionService.createRouterPermission(input, 'admin')).resolves.toMatchObject(
+        { id: rule.id, is_active: true },
+      );
+      expect(await ruleNames('/posts')).toEqual(['posts.read']);
+    });
+
+    it('decides route checks and explanations like the guard', async () => {
+      await permissionService.createRouterPermission(
+        { route: '/posts/:id', method: 'DELETE', permission: 'posts.delete', effect: 'deny' },
+        'admin',
+      );
+      const check = () => permissionService.checkRoutePermission('/posts/1', 'DELETE', 'u1');
+      const decision = async () =>
+        (await permissionService.explain('u1', '/posts/1', 'DELETE')).decision;
+
+      // A deny rule alone requires nothing, so the whitelist strategy decides
+      await expect(check()).resolves.toBe(false);
+      await expect(decision()).resolves.toEqual({ allowed: false, reason: 'strategy' });
+
+      services.configService.getConfig().permissions.permissionStrategy = 'blacklist';
+      await expect(check()).resolves.toBe(true);
+
+      await permissionService.grantPermission('u1', 'posts.delete', 'admin');
+      await expect(check()).resolves.toBe(false);
+      await expect(decision()).resolves.toMatchObject({ allowed: false, reason: 'route-deny' });
+    });
+  });
+});
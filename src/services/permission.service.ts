@@ -1,27 +1,102 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import {
+  InvalidPermissionException,
+  RoleNotFoundException,
+  ValidationException,
+} from '../exceptions/permission.exceptions';
 import { ConfigService } from './config.service';
-import { Permission } from '../interfaces/permission.interface';
+import {
+  CreatePermissionInput,
+  Permission,
+  PermissionCheckOptions,
+  PermissionDecision,
+  PermissionDenial,
+  PermissionEffect,
+  PermissionExplanation,
+  PermissionGrantInput,
+  PermissionGrantTrace,
+  UpdatePermissionInput,
+} from '../interfaces/permission.interface';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import {
+  EntityManager,
+  Equal,
+  FindOperator,
+  IsNull,
+  LessThanOrEqual,
+  MoreThan,
+  Or,
+  Repository,
+} from 'typeorm';
 import { PermissionEntity } from '../models/permission.entity';
 import { UserPermissionEntity } from '../models/user-permission.entity';
 import { RouterPermissionEntity } from '../models/router-permission.entity';
+import { UserRoleEntity } from '../models/user-role.entity';
+import { RoleHierarchyService } from './role-hierarchy.service';
 import 'reflect-metadata';
 import { AuditService } from './audit.service';
+import { PermissionCacheService } from './permission-cache.service';
+import { RouteMatcher } from '../utils/route-matcher.util';
+import { PublicRouteMatcher } from '../utils/public-route.util';
+import { PublicRoute } from '../interfaces/config.interface';
+import {
+  RoutePermissionDefault,
+  RouteRulesSnapshot,
+  RouterPermissionInput,
+} from '../interfaces/router.interface';
+import { RoleEntity } from '../models/role.entity';
+import { RolePermissionEntity } from '../models/role-permission.entity';
+import { CreateRoleInput, UpdateRoleInput } from '../interfaces/role.interface';
 
 interface CacheEntry {
   permissions: Permission[];
-  timestamp: number;
-  hasPermission?: boolean;
+  denials: PermissionDenial[];
+  expiresAt?: number;
 }
 
-interface PermissionOptions {
-  strategy?: 'AND' | 'OR';
+type RouteCheckOptions = PermissionCheckOptions & {
+  routeDenials?: RouterPermissionEntity[];
+  // Permissions of tenant route rules, required on top of the others whatever the strategy
+  tenantRequirements?: string[];
+};
+
+type RouteDecisionOptions = PermissionCheckOptions & {
+  requiredPermissions?: string[];
+  grantedPermissions?: string[];
+  verifyGrants?: boolean;
+};
+
+export interface RouteDecision {
+  decision: PermissionDecision;
+  // Decorator and global route rule permissions evaluated under the strategy
+  requiredPermissions: string[];
+  routerPermissions: RouterPermissionEntity[];
+}
+
+interface RouteRuleSet {
+  allow: RouteMatcher<RouterPermissionEntity>;
+  deny: RouteMatcher<RouterPermissionEntity>;
+}
+
+interface RouteRulesState {
+  version: number;
+  loadedAt: number;
+  rules: RouteRuleSet;
+  // Tenant rules add to the global rules of the same route
+  tenantRules: Map<string, RouteRuleSet>;
+  // Rules declared in code apply only where no database allow rule matches
+  defaults: RouteRuleSet;
 }
 
 @Injectable()
-export class PermissionService {
-  private permissionCache: Map<string, CacheEntry> = new Map();
+export class PermissionService implements OnModuleInit {
+  private routeRules: RouteRulesState | null = null;
+  private routeRulesLoading: Promise<RouteRulesState> | null = null;
+  private routeRulesVersion = 0;
+  private routeRulesGeneration = 0;
+  private routeDefaults: RoutePermissionDefault[] = [];
+  private publicRouteMatcher: PublicRouteMatcher | null = null;
+  private publicRoutes: PublicRoute[] | null = null;
 
   constructor(
     private readonly configService: ConfigService,
@@ -31,100 +106,1229 @@ export class PermissionService {
     private readonly userPermissionRepository: Repository<UserPermissionEntity>,
     @InjectRepository(RouterPermissionEntity)
     private readonly routerPermissionRepository: Repository<RouterPermissionEntity>,
+    @InjectRepository(UserRoleEntity)
+    private readonly userRoleRepository: Repository<UserRoleEntity>,
+    private readonly roleHierarchyService: RoleHierarchyService,
     private readonly auditService: AuditService,
+    private readonly cacheService: PermissionCacheService,
   ) {}
 
-  async getUserPermissions(userId: string): Promise<Permission[]> {
-    const cached = this.permissionCache.get(userId);
-    const config = this.configService.getConfig();
+  onModuleInit(): void {
+    // Compiled route rules live in process, drop them when any instance changes them
+    this.cacheService.onInvalidate((event) => {
+      if (this.cacheService.matches(event, 'routes')) {
+        this.resetRouteRules();
+      }
+    });
+  }
 
-    if (cached && Date.now() - cached.timestamp < config.security.cacheTimeout * 1000) {
-      return cached.permissions;
+  async getUserPermissions(
+    userId: string,
+    options: { cache?: boolean; tenantId?: string } = {},
+  ): Promise<Permission[]> {
+    const { permissions } = await this.getUserPermissionSet(userId, options);
+    return permissions;
+  }
+
+  async getUserDenials(
+    userId: string,
+    options: { cache?: boolean; tenantId?: string } = {},
+  ): Promise<PermissionDenial[]> {
+    const { denials } = await this.getUserPermissionSet(userId, options);
+    return denials;
+  }
+
+  private async getUserPermissionSet(
+    userId: string,
+    options: { cache?: boolean; tenantId?: string },
+  ): Promise<CacheEntry> {
+    const { tenantId } = options;
+    const cacheKey = this.cacheService.userKey(
+      userId,
+      tenantId ? `permissions:${tenantId}` : 'permissions',
+    );
+    if (options.cache !== false) {
+      const cached = await this.cacheService.get<CacheEntry>(cacheKey);
+      if (cached && (!cached.expiresAt || cached.expiresAt > Date.now())) {
+        return cached;
+      }
     }
 
     const userPermissions = await this.userPermissionRepository.find({
-      where: { userId },
+      where: {
+        user_id: userId,
+        is_active: true,
+        expires_at: this.notExpired(),
+        tenant_id: this.inTenant(tenantId),
+        // Deactivated permissions no longer count, like for role grants
+        permission: { is_active: true },
+      },
       relations: ['permission'],
     });
 
-    const permissions = userPermissions.map((up) => ({
-      id: up.permission.id,
-      name: up.permission.name,
-      description: up.permission.description,
-      level: up.permission.level,
-      is_active: up.permission.is_active,
-      created_at: up.permission.created_at || new Date(),
-      updated_at: up.permission.updated_at || new Date(),
-    }));
+    const directPermissions = userPermissions
+      .filter((up) => up.effect !== 'deny')
+      .map((up) => ({
+        id: up.permission.id,
+        name: up.permission.name,
+        description: up.permission.description,
+        level: up.permission.level,
+        is_active: up.permission.is_active,
+        created_at: up.permission.created_at || new Date(),
+        updated_at: up.permission.updated_at || new Date(),
+      }));
+
+    // Add permissions granted through the user's roles and the roles they inherit
+    const userRoles = await this.findUserRoles(userId, tenantId);
+    const roleNames = userRoles.map((ur) => ur.role.name);
+    const rolePermissions = await this.roleHierarchyService.getPermissionsForRoles(roleNames);
+
+    // Deny grants on the user or any of their roles beat every allow
+    const denials: PermissionDenial[] = [
+      ...userPermissions
+        .filter((up) => up.effect === 'deny')
+        .map((up) => ({ permission: up.permission.name, source: 'user' as const })),
+      ...(await this.roleHierarchyService.getDenialsForRoles(roleNames)),
+    ];
+    const denied = new Set(denials.map((d) => d.permission));
+
+    const merged = new Map<number, Permission>();
+    [...directPermissions, ...rolePermissions]
+      .filter((p) => !denied.has(p.name))
+      .forEach((p) => merged.set(p.id, p));
+    const permissions = [...merged.values()];
+
+    // Cached permissions must not outlive the earliest expiring grant
+    const expiries = [...userPermissions, ...userRoles]
+      .filter((grant) => grant.expires_at)
+      .map((grant) => new Date(grant.expires_at as Date).getTime());
+
+    const expiresAt = expiries.length > 0 ? Math.min(...expiries) : undefined;
+    const entry: CacheEntry = { permissions, denials, expiresAt };
+    await this.cacheService.set<CacheEntry>(
+      cacheKey,
+      entry,
+      expiresAt ? (expiresAt - Date.now()) / 1000 : undefined,
+    );
+
+    return entry;
+  }
+
+  async getUserRoles(userId: string, tenantId?: string): Promise<string[]> {
+    const userRoles = await this.findUserRoles(userId, tenantId);
+    return userRoles.map((ur) => ur.role.name);
+  }
+
+  async hasRole(userId: string, role: string, tenantId?: string): Promise<boolean> {
+    // A role also counts when it is inherited through one of the user's roles
+    const roles = await this.getUserRoles(userId, tenantId);
+    return roles.some((r) => this.roleHierarchyService.getInheritedRoles(r).includes(role));
+  }
+
+  async grantPermission(
+    userId: string,
+    permissionName: string,
+    actorId: string,
+    options: { expiresAt?: Date; tenantId?: string } = {},
+  ): Promise<UserPermissionEntity> {
+    const [grant] = await this.bulkGrant(
+      [
+        {
+          userId,
+          permission: permissionName,
+          expiresAt: options.expiresAt,
+          tenantId: options.tenantId,
+        },
+      ],
+      actorId,
+    );
+    return grant;
+  }
+
+  async denyPermission(
+    userId: string,
+    permissionName: string,
+    actorId: string,
+    options: { expiresAt?: Date; tenantId?: string } = {},
+  ): Promise<UserPermissionEntity> {
+    const [grant] = await this.bulkGrant(
+      [{ userId, permission: permissionName, ...options, effect: 'deny' }],
+      actorId,
+    );
+    return grant;
+  }
+
+  async grantPermissionFor(
+    userId: string,
+    permissionName: string,
+    durationSeconds: number,
+    actorId = 'system',
+    tenantId?: string,
+  ): Promise<UserPermissionEntity> {
+    if (!(durationSeconds > 0)) {
+      throw new InvalidPermissionException(permissionName, 'Duration must be a positive number');
+    }
+
+    const expiresAt = new Date(Date.now() + durationSeconds * 1000);
+    return this.grantPermission(userId, permissionName, actorId, { expiresAt, tenantId });
+  }
+
+  async bulkGrant(
+    grants: PermissionGrantInput[],
+    actorId: string,
+  ): Promise<UserPermissionEntity[]> {
+    const saved = await this.permissionRepository.manager.transaction(async (manager) => {
+      const userPermissionRepository = manager.getRepository(UserPermissionEntity);
+      const results: UserPermissionEntity[] = [];
+
+      for (const { userId, permission: permissionName, expiresAt, tenantId, effect } of grants) {
+        const permission = await this.findActivePermission(manager, permissionName);
+
+        // Refresh the grant, or reactivate a revoked or expired one, instead of duplicating it
+        const existing = await userPermissionRepository.findOne({
+          where: {
+            user_id: userId,
+            permission_id: permission.id,
+            tenant_id: this.forTenant(tenantId),
+            effect: effect || 'allow',
+          },
+          order: { is_active: 'DESC' },
+        });
+        const grant =
+          existing ||
+          userPermissionRepository.create({
+            user_id: userId,
+            tenant_id: tenantId,
+            effect: effect || 'allow',
+          });
+        grant.permission_id = permission.id;
+        grant.granted_at = new Date();
+        grant.expires_at = expiresAt;
+        grant.is_active = true;
 
-    this.permissionCache.set(userId, {
-      permissions,
-      timestamp: Date.now(),
+        const result = await userPermissionRepository.save(grant);
+        result.permission = permission;
+        results.push(result);
+      }
+
+      return results;
     });
 
-    return permissions;
+    // Audit only once the transaction has committed
+    for (const grant of saved) {
+      await this.clearUserCache(grant.user_id);
+      await this.auditService.logPermissionChange(
+        actorId,
+        grant.permission.name,
+        'grant',
+        grant.user_id,
+        { expiresAt: grant.expires_at, tenantId: grant.tenant_id, effect: grant.effect },
+      );
+    }
+
+    return saved;
   }
 
-  async checkRoutePermission(route: string, method: string, userId: string): Promise<boolean> {
-    const config = this.configService.getConfig();
+  async revokePermission(
+    userId: string,
+    permissionName: string,
+    actorId: string,
+    options: { tenantId?: string; effect?: PermissionEffect } = {},
+  ): Promise<boolean> {
+    const revoked = await this.permissionRepository.manager.transaction(async (manager) => {
+      const permission = await this.findPermission(manager, permissionName);
+      const userPermissionRepository = manager.getRepository(UserPermissionEntity);
+
+      // Without an effect both allow and deny grants are revoked
+      const grants = await userPermissionRepository.find({
+        where: {
+          user_id: userId,
+          permission_id: permission.id,
+          is_active: true,
+          tenant_id: this.forTenant(options.tenantId),
+          ...(options.effect ? { effect: options.effect } : {}),
+        },
+      });
+      for (const grant of grants) {
+        grant.is_active = false;
+        await userPermissionRepository.save(grant);
+      }
+
+      return grants.length;
+    });
+
+    if (revoked === 0) {
+      return false;
+    }
+
+    await this.clearUserCache(userId);
+    await this.auditService.logPermissionChange(actorId, permissionName, 'revoke', userId, {
+      grants: revoked,
+      tenantId: options.tenantId,
+      effect: options.effect,
+    });
+
+    return true;
+  }
+
+  async createPermission(input: CreatePermissionInput, actorId: string): Promise<PermissionEntity> {
+    const permission = await this.permissionRepository.manager.transaction(async (manager) => {
+      const permissionRepository = manager.getRepository(PermissionEntity);
+
+      if (await permissionRepository.findOne({ where: { name: input.name } })) {
+        throw new InvalidPermissionException(input.name, 'Permission already exists');
+      }
+
+      const now = new Date();
+      return permissionRepository.save(
+        permissionRepository.create({
+          name: input.name,
+          description: input.description ?? '',
+          level: input.level ?? 0,
+          is_active: true,
+          created_at: now,
+          updated_at: now,
+        }),
+      );
+    });
+
+    await this.auditService.logPermissionModification(actorId, permission.name, {
+      operation: 'create',
+      permissionId: permission.id,
+    });
+
+    return permission;
+  }
+
+  async updatePermission(
+    permissionName: string,
+    changes: UpdatePermissionInput,
+    actorId: string,
+  ): Promise<PermissionEntity> {
+    const { permission, previous } = await this.permissionRepository.manager.transaction(
+      async (manager) => {
+        const permissionRepository = manager.getRepository(PermissionEntity);
+        const current = await this.findPermission(manager, permissionName);
+        const snapshot = { ...current };
+
+        if (changes.name && changes.name !== current.name) {
+          if (await permissionRepository.findOne({ where: { name: changes.name } })) {
+            throw new InvalidPermissionException(changes.name, 'Permission already exists');
+          }
+        }
+
+        Object.assign(current, changes, { updated_at: new Date() });
+        return { permission: await permissionRepository.save(current), previous: snapshot };
+      },
+    );
+
+    await this.invalidatePermissionCaches();
+    await this.auditService.logPermissionModification(actorId, permissionName, {
+      operation: changes.is_active === false ? 'deactivate' : 'update',
+      permissionId: permission.id,
+      changes,
+      previous: {
+        name: previous.name,
+        description: previous.description,
+        level: previous.level,
+        is_active: previous.is_active,
+      },
+    });
+
+    return permission;
+  }
+
+  async deactivatePermission(permissionName: string, actorId: string): Promise<PermissionEntity> {
+    return this.updatePermission(permissionName, { is_active: false }, actorId);
+  }
+
+  async getRoles(): Promise<RoleEntity[]> {
+    return this.permissionRepository.manager
+      .getRepository(RoleEntity)
+      .find({ order: { level: 'DESC', name: 'ASC' } });
+  }
+
+  async createRole(input: CreateRoleInput, actorId: string): Promise<RoleEntity> {
+    const role = await this.permissionRepository.manager.transaction(async (manager) => {
+      const roleRepository = manager.getRepository(RoleEntity);
+
+      if (await roleRepository.findOne({ where: { name: input.name } })) {
+        throw new ValidationException('name', `Role ${input.name} already exists`);
+      }
+
+      const now = new Date();
+      return roleRepository.save(
+        roleRepository.create({
+          name: input.name,
+          description: input.description ?? '',
+          level: input.level ?? 0,
+          is_active: true,
+          created_at: now,
+          updated_at: now,
+        }),
+      );
+    });
+
+    await this.reloadRoles();
+    await this.auditService.logPermissionModification(actorId, `role:${role.name}`, {
+      operation: 'create-role',
+      roleId: role.id,
+    });
+
+    return role;
+  }
+
+  async updateRole(
+    roleName: string,
+    changes: UpdateRoleInput,
+    actorId: string,
+  ): Promise<RoleEntity> {
+    const { role, previous } = await this.permissionRepository.manager.transaction(
+      async (manager) => {
+        const roleRepository = manager.getRepository(RoleEntity);
+        const current = await roleRepository.findOne({ where: { name: roleName } });
+        if (!current) {
+          throw new RoleNotFoundException(roleName);
+        }
+        const snapshot = { ...current };
+
+        if (changes.name && changes.name !== current.name) {
+          if (await roleRepository.findOne({ where: { name: changes.name } })) {
+            throw new ValidationException('name', `Role ${changes.name} already exists`);
+          }
+        }
+
+        Object.assign(current, changes, { updated_at: new Date() });
+        return { role: await roleRepository.save(current), previous: snapshot };
+      },
+    );
+
+    // Names, levels and active roles make up the hierarchy
+    await this.reloadRoles();
+    await this.auditService.logPermissionModification(actorId, `role:${roleName}`, {
+      operation: changes.is_active === false ? 'deactivate-role' : 'update-role',
+      roleId: role.id,
+      changes,
+      previous: {
+        name: previous.name,
+        description: previous.description,
+        level: previous.level,
+        is_active: previous.is_active,
+      },
+    });
+
+    return role;
+  }
+
+  async deactivateRole(roleName: string, actorId: string): Promise<RoleEntity> {
+    return this.updateRole(roleName, { is_active: false }, actorId);
+  }
+
+  async getRolePermissions(roleName: string): Promise<RolePermissionEntity[]> {
+    return this.permissionRepository.manager.getRepository(RolePermissionEntity).find({
+      where: { role: { name: roleName } },
+      relations: ['permission'],
+    });
+  }
+
+  async grantRolePermission(
+    roleName: string,
+    permissionName: string,
+    actorId: string,
+    options: { effect?: PermissionEffect } = {},
+  ): Promise<RolePermissionEntity> {
+    const effect = options.effect || 'allow';
+    const rolePermission = await this.permissionRepository.manager.transaction(async (manager) => {
+      const role = await this.findActiveRole(manager, roleName);
+      const permission = await this.findActivePermission(manager, permissionName);
+      const rolePermissionRepository = manager.getRepository(RolePermissionEntity);
+
+      // One row per role and permission, granting again replaces its effect
+      const existing = await rolePermissionRepository.findOne({
+        where: { role_id: role.id, permission_id: permission.id },
+      });
+      const saved = await rolePermissionRepository.save(
+        existing
+          ? Object.assign(existing, { effect })
+          : rolePermissionRepository.create({
+              role_id: role.id,
+              permission_id: permission.id,
+              effect,
+              created_at: new Date(),
+            }),
+      );
+      return Object.assign(saved, { role, permission });
+    });
+
+    await this.cacheService.invalidateRoles();
+    await this.auditService.logPermissionModification(actorId, permissionName, {
+      operation: 'grant-role-permission',
+      role: roleName,
+      effect: rolePermission.effect,
+    });
+
+    return rolePermission;
+  }
+
+  async revokeRolePermission(
+    roleName: string,
+    permissionName: string,
+    actorId: string,
+  ): Promise<boolean> {
+    const revoked = await this.permissionRepository.manager.transaction(async (manager) => {
+      const role = await this.findActiveRole(manager, roleName);
+      const permission = await this.findPermission(manager, permissionName);
+      const { affected } = await manager
+        .getRepository(RolePermissionEntity)
+        .delete({ role_id: role.id, permission_id: permission.id });
+      return affected ?? 0;
+    });
+
+    if (revoked === 0) {
+      return false;
+    }
+
+    await this.cacheService.invalidateRoles();
+    await this.auditService.logPermissionModification(actorId, permissionName, {
+      operation: 'revoke-role-permission',
+      role: roleName,
+    });
+
+    return true;
+  }
+
+  async getRouterPermissions(): Promise<RouterPermissionEntity[]> {
+    return this.routerPermissionRepository.find({
+      relations: ['permission'],
+      order: { route: 'ASC', method: 'ASC' },
+    });
+  }
+
+  async createRouterPermission(
+    input: RouterPermissionInput,
+    actorId: string,
+  ): Promise<RouterPermissionEntity> {
+    const routerPermission = await this.permissionRepository.manager.transaction(
+      async (manager) => {
+        const permission = await this.findActivePermission(manager, input.permission);
+        const routerPermissionRepository = manager.getRepository(RouterPermissionEntity);
+
+        const now = new Date();
+        const rule = {
+          route: input.route,
+          method: input.method,
+          permission_id: permission.id,
+          effect: input.effect || 'allow',
+        };
+
+        // A deactivated rule is reactivated, the database allows one row per rule and tenant
+        const existing = await routerPermissionRepository.findOne({
+          where: { ...rule, tenant_id: this.forTenant(input.tenantId) },
+          order: { is_active: 'DESC' },
+        });
+        const saved = await routerPermissionRepository.save(
+          existing
+            ? Object.assign(existing, { is_active: true, updated_at: now })
+            : routerPermissionRepository.create({
+                ...rule,
+                is_active: true,
+                tenant_id: input.tenantId,
+                created_at: now,
+                updated_at: now,
+              }),
+        );
+        saved.permission = permission;
+        return saved;
+      },
+    );
+
+    await this.clearRouteCache();
+    await this.auditService.logPermissionModification(actorId, input.permission, {
+      operation: 'create-route',
+      routerPermissionId: routerPermission.id,
+      route: input.route,
+      method: input.method,
+      tenantId: input.tenantId,
+      effect: input.effect || 'allow',
+    });
+
+    return routerPermission;
+  }
+
+  async updateRouterPermission(
+    id: number,
+    changes: Partial<RouterPermissionInput> & { is_active?: boolean },
+    actorId: string,
+  ): Promise<RouterPermissionEntity> {
+    const { routerPermission, previous } = await this.permissionRepository.manager.transaction(
+      async (manager) => {
+        const routerPermissionRepository = manager.getRepository(RouterPermissionEntity);
+        const current = await routerPermissionRepository.findOne({
+          where: { id },
+          relations: ['permission'],
+        });
+        if (!current) {
+          throw new InvalidPermissionException(`route #${id}`, 'Router permission does not exist');
+        }
+        const snapshot = {
+          route: current.route,
+          method: current.method,
+          permission: current.permission?.name,
+          is_active: current.is_active,
+          tenantId: current.tenant_id,
+          effect: current.effect,
+        };
+
+        if (changes.permission) {
+          current.permission = await this.findActivePermission(manager, changes.permission);
+          current.permission_id = current.permission.id;
+        }
+        if (changes.route !== undefined) current.route = changes.route;
+        if (changes.method !== undefined) current.method = changes.method;
+        if (changes.is_active !== undefined) current.is_active = changes.is_active;
+        if (changes.tenantId !== undefined) current.tenant_id = changes.tenantId;
+        if (changes.effect !== undefined) current.effect = changes.effect;
+        current.updated_at = new Date();
+
+        return {
+          routerPermission: await routerPermissionRepository.save(current),
+          previous: snapshot,
+        };
+      },
+    );
+
+    await this.clearRouteCache();
+    await this.auditService.logPermissionModification(actorId, routerPermission.permission.name, {
+      operation: changes.is_active === false ? 'deactivate-route' : 'update-route',
+      routerPermissionId: id,
+      changes,
+      previous,
+    });
+
+    return routerPermission;
+  }
 
-    if (config.permissions.publicRoutes.includes(route)) {
-      return true;
+  async deactivateRouterPermission(id: number, actorId: string): Promise<RouterPermissionEntity> {
+    return this.updateRouterPermission(id, { is_active: false }, actorId);
+  }
+
+  async getUserGrants(userId: string): Promise<UserPermissionEntity[]> {
+    return this.userPermissionRepository.find({
+      where: { user_id: userId },
+      relations: ['permission'],
+      order: { granted_at: 'DESC' },
+    });
+  }
+
+  async getUserRoleAssignments(userId: string): Promise<UserRoleEntity[]> {
+    return this.userRoleRepository.find({
+      where: { user_id: userId },
+      relations: ['role'],
+      order: { granted_at: 'DESC' },
+    });
+  }
+
+  async assignRole(
+    userId: string,
+    roleName: string,
+    actorId: string,
+    options: { expiresAt?: Date; tenantId?: string } = {},
+  ): Promise<UserRoleEntity> {
+    const assignment = await this.permissionRepository.manager.transaction(async (manager) => {
+      const role = await this.findActiveRole(manager, roleName);
+
+      // Refresh the assignment, or reactivate a revoked or expired one, instead of duplicating it
+      const userRoleRepository = manager.getRepository(UserRoleEntity);
+      const existing = await userRoleRepository.findOne({
+        where: {
+          user_id: userId,
+          role_id: role.id,
+          tenant_id: this.forTenant(options.tenantId),
+        },
+        order: { is_active: 'DESC' },
+      });
+      const userRole =
+        existing || userRoleRepository.create({ user_id: userId, tenant_id: options.tenantId });
+      userRole.role_id = role.id;
+      userRole.granted_at = new Date();
+      userRole.expires_at = options.expiresAt;
+      userRole.is_active = true;
+
+      const saved = await userRoleRepository.save(userRole);
+      saved.role = role;
+      return saved;
+    });
+
+    await this.clearUserCache(userId);
+    await this.auditService.logPermissionChange(actorId, `role:${roleName}`, 'grant', userId, {
+      expiresAt: assignment.expires_at,
+      tenantId: assignment.tenant_id,
+    });
+
+    return assignment;
+  }
+
+  async unassignRole(
+    userId: string,
+    roleName: string,
+    actorId: string,
+    options: { tenantId?: string } = {},
+  ): Promise<boolean> {
+    const revoked = await this.permissionRepository.manager.transaction(async (manager) => {
+      const userRoleRepository = manager.getRepository(UserRoleEntity);
+      const assignments = await userRoleRepository.find({
+        where: {
+          user_id: userId,
+          is_active: true,
+          role: { name: roleName },
+          tenant_id: this.forTenant(options.tenantId),
+        },
+        relations: ['role'],
+      });
+      for (const assignment of assignments) {
+        assignment.is_active = false;
+        await userRoleRepository.save(assignment);
+      }
+      return assignments.length;
+    });
+
+    if (revoked === 0) {
+      return false;
+    }
+
+    await this.clearUserCache(userId);
+    await this.auditService.logPermissionChange(actorId, `role:${roleName}`, 'revoke', userId, {
+      assignments: revoked,
+      tenantId: options.tenantId,
+    });
+
+    return true;
+  }
+
+  private async findPermission(
+    manager: EntityManager,
+    permissionName: string,
+  ): Promise<PermissionEntity> {
+    const permission = await manager
+      .getRepository(PermissionEntity)
+      .findOne({ where: { name: permissionName } });
+    if (!permission) {
+      throw new InvalidPermissionException(permissionName, 'Permission does not exist');
+    }
+    return permission;
+  }
+
+  private async findActivePermission(
+    manager: EntityManager,
+    permissionName: string,
+  ): Promise<PermissionEntity> {
+    const permission = await this.findPermission(manager, permissionName);
+    if (!permission.is_active) {
+      throw new InvalidPermissionException(permissionName, 'Permission is not active');
     }
+    return permission;
+  }
+
+  private async findActiveRole(manager: EntityManager, roleName: string): Promise<RoleEntity> {
+    const role = await manager
+      .getRepository(RoleEntity)
+      .findOne({ where: { name: roleName, is_active: true } });
+    if (!role) {
+      throw new RoleNotFoundException(roleName);
+    }
+    return role;
+  }
 
-    const routerPermissions = await this.routerPermissionRepository
-      .createQueryBuilder('rp')
-      .innerJoin('permissions', 'p', 'p.id = rp.permission_id')
-      .select(['rp.id', 'rp.route', 'rp.method', 'rp.permission_id', 'p.name'])
-      .where('rp.route = :route', { route })
-      .andWhere('rp.method = :method', { method })
-      .andWhere('rp.is_active = :isActive', { isActive: true })
-      .getMany();
+  private async reloadRoles(): Promise<void> {
+    // Other instances reload on the invalidation event
+    await this.roleHierarchyService.loadHierarchy();
+    await this.cacheService.invalidateHierarchy();
+  }
+
+  private async invalidatePermissionCaches(): Promise<void> {
+    // Permission changes can affect every user, role and route rule
+    await this.roleHierarchyService.clearCache();
+    await this.clearRouteCache();
+  }
 
-    if (routerPermissions.length === 0 && config.permissions.permissionStrategy === 'blacklist') {
-      return true;
+  async clearUserCache(userId?: string): Promise<void> {
+    if (userId) {
+      await this.cacheService.invalidateUser(userId);
+    } else {
+      await this.cacheService.invalidateUsers();
     }
+  }
+
+  private async findUserRoles(
+    userId: string,
+    tenantId?: string,
+    expired = false,
+  ): Promise<UserRoleEntity[]> {
+    return this.userRoleRepository.find({
+      where: {
+        user_id: userId,
+        ...this.inPeriod(expired),
+        tenant_id: this.inTenant(tenantId),
+        role: { is_active: true },
+      },
+      relations: ['role'],
+    });
+  }
 
-    const userPermissions = await this.userPermissionRepository
-      .createQueryBuilder('up')
-      .innerJoin('permissions', 'p', 'p.id = up.permission_id')
-      .select(['up.id', 'up.user_id', 'up.permission_id', 'p.name'])
-      .where('up.user_id = :userId', { userId })
-      .andWhere('up.is_active = :isActive', { isActive: true })
-      .getMany();
+  private notExpired(): FindOperator<any> {
+    // Grants without an expiry never expire
+    return Or(IsNull(), MoreThan(new Date()));
+  }
 
-    const hasPermissions = routerPermissions.every((rp) =>
-      userPermissions.some((up) => up.permission_id === rp.permission_id),
+  private inPeriod(expired: boolean): { is_active?: boolean; expires_at: FindOperator<any> } {
+    // The expiry sweep deactivates expired rows, so they are found whether swept or not
+    return expired
+      ? { expires_at: LessThanOrEqual(new Date()) }
+      : { is_active: true, expires_at: this.notExpired() };
+  }
+
+  private inTenant(tenantId?: string): FindOperator<any> {
+    // Global grants apply in every tenant
+    return tenantId ? Or(IsNull(), Equal(tenantId)) : IsNull();
+  }
+
+  private forTenant(tenantId?: string): FindOperator<any> {
+    return tenantId ? Equal(tenantId) : IsNull();
+  }
+
+  async getRoutePermissions(
+    route: string,
+    method: string,
+    tenantId?: string,
+  ): Promise<RouterPermissionEntity[]> {
+    const { rules, tenantRules, defaults } = await this.getRouteRules();
+    const tenant = tenantId ? tenantRules.get(tenantId) : undefined;
+
+    // Allow rules of every matching pattern apply, so `/admin/**` still guards `/admin/users`.
+    // Code defaults only apply without a database rule, tenant rules only add requirements
+    let allows = rules.allow.matchAll(route, method);
+    if (allows.length === 0) allows = defaults.allow.matchAll(route, method);
+    if (tenant) allows = [...allows, ...tenant.allow.matchAll(route, method)];
+
+    // Deny rules apply from the tenant, the database and the code defaults alike
+    const denies = [
+      ...defaults.deny.matchAll(route, method),
+      ...rules.deny.matchAll(route, method),
+      ...(tenant ? tenant.deny.matchAll(route, method) : []),
+    ];
+
+    return [...allows, ...denies];
+  }
+
+  getRouteRulesSnapshot(): RouteRulesSnapshot | null {
+    if (!this.routeRules) {
+      return null;
+    }
+
+    const { version, loadedAt, rules, tenantRules, defaults } = this.routeRules;
+    const size = [rules, defaults, ...tenantRules.values()].reduce(
+      (sum, set) => sum + set.allow.size + set.deny.size,
+      0,
     );
+    return { version, loadedAt: new Date(loadedAt), rules: size };
+  }
+
+  async refreshRouteRules(): Promise<RouteRulesSnapshot> {
+    await this.clearRouteCache();
+    await this.getRouteRules();
+    return this.getRouteRulesSnapshot() as RouteRulesSnapshot;
+  }
+
+  /**
+   * Adds route rules declared in code, as done by `PermissionsModule.forFeature()`. Database
+   * allow rules matching the same request take precedence; deny defaults always apply.
+   */
+  registerRouteDefaults(rules: RoutePermissionDefault[]): void {
+    this.routeDefaults.push(...rules);
+    this.resetRouteRules();
+  }
+
+  async clearRouteCache(): Promise<void> {
+    this.resetRouteRules();
+    await this.cacheService.invalidateRoutes();
+  }
+
+  private resetRouteRules(): void {
+    // Loads started before the reset must not replace the snapshot
+    this.routeRules = null;
+    this.routeRulesLoading = null;
+    this.routeRulesGeneration++;
+  }
+
+  private async getRouteRules(): Promise<RouteRulesState> {
+    // The snapshot is kept even with `enableCaching: false`; every rule write resets it
+    if (this.routeRules && !this.isRouteRulesStale(this.routeRules)) {
+      return this.routeRules;
+    }
+
+    // Concurrent requests share a single load
+    if (!this.routeRulesLoading) {
+      this.routeRulesLoading = this.loadRouteRules(this.routeRulesGeneration);
+    }
+
+    return this.routeRulesLoading;
+  }
 
-    if (this.auditService) {
-      await this.auditService.logPermissionCheck(userId, route, hasPermissions, {
+  private async loadRouteRules(generation: number): Promise<RouteRulesState> {
+    try {
+      // Compile all active rules once instead of querying per request
+      const routerPermissions = await this.routerPermissionRepository.find({
+        where: { is_active: true },
+        relations: ['permission'],
+      });
+
+      // Group tenant specific rules so each tenant gets its own matchers
+      const tenantRules = new Map<string, RouterPermissionEntity[]>();
+      routerPermissions
+        .filter((rp) => rp.tenant_id)
+        .forEach((rp) => {
+          const tenantId = rp.tenant_id as string;
+          tenantRules.set(tenantId, [...(tenantRules.get(tenantId) || []), rp]);
+        });
+
+      const rules: RouteRulesState = {
+        version: ++this.routeRulesVersion,
+        loadedAt: Date.now(),
+        rules: this.compileRouteRules(routerPermissions.filter((rp) => !rp.tenant_id)),
+        tenantRules: new Map(
+          [...tenantRules].map(([tenantId, rps]) => [tenantId, this.compileRouteRules(rps)]),
+        ),
+        defaults: this.compileRouteRules(this.routeDefaults.map((rule) => this.toRouteRule(rule))),
+      };
+
+      if (generation === this.routeRulesGeneration) {
+        this.routeRules = rules;
+      }
+
+      return rules;
+    } finally {
+      if (generation === this.routeRulesGeneration) {
+        this.routeRulesLoading = null;
+      }
+    }
+  }
+
+  private toRouteRule(rule: RoutePermissionDefault): RouterPermissionEntity {
+    // Code defaults are not persisted, so they carry no id
+    return Object.assign(new RouterPermissionEntity(), {
+      route: rule.route,
+      method: rule.method,
+      permission: Object.assign(new PermissionEntity(), { name: rule.permission }),
+      effect: rule.effect || 'allow',
+      is_active: true,
+    });
+  }
+
+  private compileRouteRules(routerPermissions: RouterPermissionEntity[]): RouteRuleSet {
+    const toRule = (rp: RouterPermissionEntity) => ({
+      route: rp.route,
+      method: rp.method,
+      value: rp,
+    });
+
+    return {
+      allow: new RouteMatcher(routerPermissions.filter((rp) => rp.effect !== 'deny').map(toRule)),
+      deny: new RouteMatcher(routerPermissions.filter((rp) => rp.effect === 'deny').map(toRule)),
+    };
+  }
+
+  private isRouteRulesStale(rules: RouteRulesState): boolean {
+    const config = this.configService.getConfig();
+    const interval = config.permissions.routeRefreshInterval ?? config.security.cacheTimeout;
+
+    return interval > 0 && Date.now() - rules.loadedAt >= interval * 1000;
+  }
+
+  isPublicRoute(route: string, method: string): boolean {
+    const { publicRoutes } = this.configService.getConfig().permissions;
+
+    // Recompile only when the configured routes change
+    if (!this.publicRouteMatcher || this.publicRoutes !== publicRoutes) {
+      this.publicRouteMatcher = new PublicRouteMatcher(publicRoutes);
+      this.publicRoutes = publicRoutes;
+    }
+
+    return this.publicRouteMatcher.matches(route, method);
+  }
+
+  async checkRoutePermission(
+    route: string,
+    method: string,
+    userId: string,
+    tenantId?: string,
+  ): Promise<boolean> {
+    const { decision, requiredPermissions } = await this.decideRoute(userId, route, method, {
+      tenantId,
+    });
+
+    // Public routes and strategy fallbacks are not audited, as in the guard
+    if (this.auditService && decision.reason !== 'public' && decision.reason !== 'strategy') {
+      await this.auditService.logPermissionCheck(userId, route, decision.allowed, {
         method,
-        requiredPermissions: routerPermissions.map((rp) => rp.permission_id),
-        userPermissions: userPermissions.map((up) => up.permission_id),
+        requiredPermissions,
+        tenantId,
+        decision,
       });
     }
 
-    return hasPermissions;
+    return decision.allowed;
+  }
+
+  /**
+   * Decides a request the way `PermissionsGuard` does: public routes, the route rules matching
+   * the request, the handler's `requiredPermissions` and the fallback when nothing applies.
+   * Pass `grantedPermissions` to check the names carried by the user's token instead of the
+   * database grants, and `verifyGrants` to confirm an allowed token against the database.
+   */
+  async decideRoute(
+    userId: string,
+    route: string,
+    method: string,
+    options: RouteDecisionOptions = {},
+  ): Promise<RouteDecision> {
+    const routerPermissions = await this.getRoutePermissions(route, method, options.tenantId);
+    const allowRules = routerPermissions.filter((rp) => rp.effect !== 'deny');
+    const routeDenials = routerPermissions.filter((rp) => rp.effect === 'deny');
+
+    // Tenant rules are required on their own, so they never join the strategy
+    const requiredPermissions = [
+      ...new Set([
+        ...(options.requiredPermissions || []),
+        ...allowRules.filter((rp) => !rp.tenant_id).map((rp) => rp.permission.name),
+      ]),
+    ];
+    const tenantRequirements = [
+      ...new Set(allowRules.filter((rp) => rp.tenant_id).map((rp) => rp.permission.name)),
+    ];
+    const result = (decision: PermissionDecision): RouteDecision => ({
+      decision,
+      requiredPermissions,
+      routerPermissions,
+    });
+
+    if (this.isPublicRoute(route, method)) {
+      return result({ allowed: true, reason: 'public' });
+    }
+
+    // Without requirements the decorator fallback or the permission strategy decides
+    const { permissionStrategy } = this.configService.getConfig().permissions;
+    const fallback: PermissionDecision = {
+      allowed: options.fallback ? options.fallback === 'allow' : permissionStrategy === 'blacklist',
+      reason: 'strategy',
+    };
+    const unrestricted = requiredPermissions.length === 0 && tenantRequirements.length === 0;
+    if (unrestricted && routeDenials.length === 0) {
+      return result(fallback);
+    }
+
+    // Deny rules on the route, the user and their roles beat every allow
+    const checkOptions = { ...options, routeDenials, tenantRequirements };
+    let decision = options.grantedPermissions
+      ? this.evaluateGrantedPermissions(
+          options.grantedPermissions,
+          requiredPermissions,
+          checkOptions,
+        )
+      : await this.evaluatePermissions(userId, requiredPermissions, checkOptions);
+
+    // The database can still reject grants revoked after the token was issued
+    if (options.grantedPermissions && options.verifyGrants && decision.allowed) {
+      decision = await this.evaluatePermissions(userId, requiredPermissions, checkOptions);
+    }
+
+    return result(decision.allowed && unrestricted ? fallback : decision);
   }
 
   async validateUserPermissions(
     userId: string,
     requiredPermissions: string[],
-    options: PermissionOptions = {},
+    options: PermissionCheckOptions = {},
   ): Promise<boolean> {
-    const userPermissions = await this.getUserPermissions(userId);
+    const decision = await this.evaluatePermissions(userId, requiredPermissions, options);
+    return decision.allowed;
+  }
+
+  /**
+   * Decides a permission check and reports the rule that decided it. Route deny rules are
+   * evaluated first, then user and role denies, then the allows under the AND/OR strategy.
+   */
+  async evaluatePermissions(
+    userId: string,
+    requiredPermissions: string[],
+    options: RouteCheckOptions = {},
+  ): Promise<PermissionDecision> {
+    const { permissions, denials } = await this.getUserPermissionSet(userId, {
+      cache: options.cache,
+      tenantId: options.tenantId,
+    });
+    return this.decide(
+      new Set(permissions.map((p) => p.name)),
+      denials,
+      requiredPermissions,
+      options,
+    );
+  }
+
+  /**
+   * Decides a permission check against names carried by the user's token instead of the
+   * database grants. Route deny rules still apply; user and role denies are expected to be
+   * reflected in the token already.
+   */
+  evaluateGrantedPermissions(
+    grantedPermissions: string[],
+    requiredPermissions: string[],
+    options: RouteCheckOptions = {},
+  ): PermissionDecision {
+    return this.decide(new Set(grantedPermissions), [], requiredPermissions, options);
+  }
+
+  private decide(
+    held: Set<string>,
+    denials: PermissionDenial[],
+    requiredPermissions: string[],
+    options: RouteCheckOptions,
+  ): PermissionDecision {
+    // Route deny rules reject every user holding the denied permission
+    const routeDenial = options.routeDenials?.find((rp) => held.has(rp.permission.name));
+    if (routeDenial) {
+      return {
+        allowed: false,
+        reason: 'route-deny',
+        permission: routeDenial.permission.name,
+        routeRuleId: routeDenial.id,
+      };
+    }
+
+    const reject = (permission: string, missingPermissions: string[]): PermissionDecision => {
+      const denial = denials.find((d) => d.permission === permission);
+      if (!denial) {
+        return { allowed: false, reason: 'missing', permission, missingPermissions };
+      }
+      return {
+        allowed: false,
+        reason: denial.source === 'user' ? 'user-deny' : 'role-deny',
+        permission,
+        role: denial.role,
+        missingPermissions,
+      };
+    };
+
+    // A tenant can tighten a route but never loosen it, so its rules are checked on their own
+    const tenantMissing = (options.tenantRequirements || []).filter((p) => !held.has(p));
+    if (tenantMissing.length > 0) {
+      return reject(tenantMissing[0], tenantMissing);
+    }
 
     if (options.strategy === 'OR') {
-      return requiredPermissions.some((permission) =>
-        userPermissions.some((p) => p.name === permission),
+      const granted = requiredPermissions.find((permission) => held.has(permission));
+      if (granted || requiredPermissions.length === 0) {
+        return { allowed: true, reason: 'granted', permission: granted };
+      }
+
+      // Report a deny over a plain missing permission
+      const denied = requiredPermissions.find((permission) =>
+        denials.some((d) => d.permission === permission),
       );
+      return reject(denied || requiredPermissions[0], requiredPermissions);
     }
 
     // Default to AND strategy
-    return requiredPermissions.every((permission) =>
-      userPermissions.some((p) => p.name === permission),
+    const missing = requiredPermissions.filter((permission) => !held.has(permission));
+    return missing.length > 0 ? reject(missing[0], missing) : { allowed: true, reason: 'granted' };
+  }
+
+  /**
+   * Traces how a request would be decided for the user: the public route match, the matched
+   * route rules, every grant considered with its source, skipped expired grants and the verdict.
+   * Pass the handler's decorator permissions as `requiredPermissions` to mirror the guard.
+   */
+  async explain(
+    userId: string,
+    route: string,
+    method: string,
+    options: PermissionCheckOptions & { requiredPermissions?: string[] } = {},
+  ): Promise<PermissionExplanation> {
+    const { permissionStrategy } = this.configService.getConfig().permissions;
+    const { tenantId } = options;
+    const { decision, requiredPermissions, routerPermissions } = await this.decideRoute(
+      userId,
+      route,
+      method,
+      options,
     );
+
+    return {
+      userId,
+      route,
+      method,
+      tenantId,
+      publicRoute: decision.reason === 'public',
+      permissionStrategy,
+      strategy: options.strategy || 'AND',
+      routeRules: routerPermissions.map((rp) => ({
+        id: rp.id,
+        route: rp.route,
+        method: rp.method,
+        permission: rp.permission.name,
+        effect: rp.effect,
+        tenantId: rp.tenant_id,
+      })),
+      requiredPermissions,
+      grants: await this.traceGrants(userId, tenantId, false),
+      expiredGrants: await this.traceGrants(userId, tenantId, true),
+      decision,
+    };
+  }
+
+  private async traceGrants(
+    userId: string,
+    tenantId: string | undefined,
+    expired: boolean,
+  ): Promise<PermissionGrantTrace[]> {
+    const userPermissions = await this.userPermissionRepository.find({
+      where: {
+        user_id: userId,
+        ...this.inPeriod(expired),
+        tenant_id: this.inTenant(tenantId),
+        permission: { is_active: true },
+      },
+      relations: ['permission'],
+    });
+
+    const traces: PermissionGrantTrace[] = userPermissions.map((up) => ({
+      permission: up.permission.name,
+      source: 'direct',
+      effect: up.effect,
+      tenantId: up.tenant_id,
+      expiresAt: up.expires_at,
+    }));
+
+    // Role grants carry the assignment's tenant and expiry
+    for (const userRole of await this.findUserRoles(userId, tenantId, expired)) {
+      const assigned = userRole.role.name;
+      for (const role of this.roleHierarchyService.getInheritedRoles(assigned)) {
+        const { allowed, denied } = await this.roleHierarchyService.getRolePermissions(role);
+        const toTrace =
+          (effect: PermissionEffect) =>
+          (permission: Permission): PermissionGrantTrace => ({
+            permission: permission.name,
+            source: role === assigned ? 'role' : 'inherited',
+            effect,
+            role,
+            viaRole: role === assigned ? undefined : assigned,
+            tenantId: userRole.tenant_id,
+            expiresAt: userRole.expires_at,
+          });
+        traces.push(...allowed.map(toTrace('allow')), ...denied.map(toTrace('deny')));
+      }
+    }
+
+    return traces;
   }
 
   async getPermissions(): Promise<PermissionEntity[]> {
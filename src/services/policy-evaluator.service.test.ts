@@ -0,0 +1,122 @@
+import { DataSource } from 'typeorm';
+import { PolicyEvaluatorService } from './policy-evaluator.service';
+import { InvalidPermissionException } from '../exceptions/permission.exceptions';
+import { PolicyRule } from '../interfaces/policy.interface';
+import { createTestDataSource, createTestServices, seedPermissions } from '../testing/test-module';
+
+describe('PolicyEvaluatorService', () => {
+  let dataSource: DataSource;
+  let policyEvaluator: PolicyEvaluatorService;
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    await seedPermissions(dataSource, ['orders.update', 'documents.read']);
+    ({ policyEvaluator } = await createTestServices(dataSource));
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  const isOwner: PolicyRule = { field: 'resource.ownerId', operator: 'eq', valueFrom: 'user.id' };
+  const inUserTenants: PolicyRule = {
+    field: 'resource.tenantId',
+    operator: 'in',
+    valueFrom: 'user.tenants',
+  };
+
+  describe('evaluate', () => {
+    it('compares fields with values from the context', () => {
+      const user = { id: 7, tenants: ['a', 'b'] };
+
+      // Ids from the request are strings, ids from the database numbers
+      expect(policyEvaluator.evaluate(isOwner, { user, resource: { ownerId: '7' } })).toEqual({
+        allowed: true,
+      });
+      expect(policyEvaluator.evaluate(isOwner, { user, resource: { ownerId: 8 } })).toEqual({
+        allowed: false,
+        failedCondition: isOwner,
+      });
+      expect(
+        policyEvaluator.evaluate(inUserTenants, { user, resource: { tenantId: 'b' } }),
+      ).toEqual({ allowed: true });
+      expect(policyEvaluator.evaluate(isOwner, { user, resource: undefined }).allowed).toBe(false);
+    });
+
+    it('supports every operator', () => {
+      const context = {
+        user: { roles: ['editor'] },
+        resource: { total: 50, status: 'draft', publishedAt: new Date('2026-01-01') },
+      };
+      const passing: PolicyRule[] = [
+        { field: 'resource.status', operator: 'ne', value: 'archived' },
+        { field: 'resource.status', operator: 'nin', value: ['archived', 'deleted'] },
+        { field: 'user.roles', operator: 'contains', value: 'editor' },
+        { field: 'resource.total', operator: 'gt', value: 10 },
+        { field: 'resource.total', operator: 'gte', value: 50 },
+        { field: 'resource.total', operator: 'lt', value: '100' },
+        { field: 'resource.publishedAt', operator: 'lte', value: '2026-01-01T00:00:00Z' },
+        { field: 'resource.status', operator: 'exists' },
+        { field: 'resource.deletedAt', operator: 'exists', value: false },
+      ];
+
+      passing.forEach((rule) =>
+        expect(policyEvaluator.evaluate(rule, context)).toEqual({ allowed: true }),
+      );
+      expect(
+        policyEvaluator.evaluate({ field: 'resource.missing', operator: 'gt', value: 0 }, context)
+          .allowed,
+      ).toBe(false);
+    });
+
+    it('combines rules and reports the condition that failed', () => {
+      const context = { user: { id: 1, tenants: ['a'] }, resource: { ownerId: 2, tenantId: 'a' } };
+
+      expect(policyEvaluator.evaluate({ all: [inUserTenants, isOwner] }, context)).toEqual({
+        allowed: false,
+        failedCondition: isOwner,
+      });
+      expect(policyEvaluator.evaluate({ any: [isOwner, inUserTenants] }, context).allowed).toBe(
+        true,
+      );
+      expect(policyEvaluator.evaluate({ not: isOwner }, context).allowed).toBe(true);
+    });
+  });
+
+  describe('policies', () => {
+    it('requires every active policy of the permission to pass', async () => {
+      await policyEvaluator.createPolicy(
+        { permission: 'documents.read', name: 'same-tenant', conditions: inUserTenants },
+        'admin',
+      );
+      const owner = await policyEvaluator.createPolicy(
+        { permission: 'documents.read', name: 'owner', conditions: isOwner },
+        'admin',
+      );
+      const context = { user: { id: 1, tenants: ['a'] }, resource: { ownerId: 2, tenantId: 'a' } };
+
+      await expect(policyEvaluator.checkPolicies('documents.read', context)).resolves.toEqual({
+        allowed: false,
+        policy: 'owner',
+        failedCondition: isOwner,
+      });
+      await expect(policyEvaluator.checkPolicies('orders.update', context)).resolves.toEqual({
+        allowed: true,
+      });
+
+      await policyEvaluator.deactivatePolicy(owner.id, 'admin');
+      await expect(policyEvaluator.checkPolicies('documents.read', context)).resolves.toEqual({
+        allowed: true,
+      });
+    });
+
+    it('only attaches policies to existing permissions', async () => {
+      await expect(
+        policyEvaluator.createPolicy(
+          { permission: 'orders.delete', name: 'owner', conditions: isOwner },
+          'admin',
+        ),
+      ).rejects.toBeInstanceOf(InvalidPermissionException);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PermissionPolicyEntity } from '../models/permission-policy.entity';
+import { PermissionEntity } from '../models/permission.entity';
+import {
+  PermissionPolicy,
+  PermissionPolicyInput,
+  PolicyCondition,
+  PolicyContext,
+  PolicyEvaluationResult,
+  PolicyRule,
+} from '../interfaces/policy.interface';
+import { InvalidPermissionException } from '../exceptions/permission.exceptions';
+import { PermissionCacheService } from './permission-cache.service';
+import { AuditService } from './audit.service';
+
+@Injectable()
+export class PolicyEvaluatorService {
+  constructor(
+    @InjectRepository(PermissionPolicyEntity)
+    private readonly policyRepository: Repository<PermissionPolicyEntity>,
+    @InjectRepository(PermissionEntity)
+    private readonly permissionRepository: Repository<PermissionEntity>,
+    private readonly cacheService: PermissionCacheService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async getPolicies(permission: string): Promise<PermissionPolicy[]> {
+    const cacheKey = this.cacheService.policyKey(permission);
+    const cached = await this.cacheService.get<PermissionPolicy[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const policies = await this.policyRepository.find({
+      where: { is_active: true, permission: { name: permission, is_active: true } },
+      relations: ['permission'],
+      order: { id: 'ASC' },
+    });
+
+    const result = policies.map(this.mapPolicyEntity);
+    await this.cacheService.set(cacheKey, result);
+    return result;
+  }
+
+  // Every active policy attached to the permission has to pass
+  async checkPolicies(permission: string, context: PolicyContext): Promise<PolicyEvaluationResult> {
+    for (const policy of await this.getPolicies(permission)) {
+      const failedCondition = this.findFailedCondition(policy.conditions, context);
+      if (failedCondition) {
+        return { allowed: false, policy: policy.name, failedCondition };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  evaluate(rule: PolicyRule, context: PolicyContext): PolicyEvaluationResult {
+    const failedCondition = this.findFailedCondition(rule, context);
+    return failedCondition ? { allowed: false, failedCondition } : { allowed: true };
+  }
+
+  async createPolicy(
+    input: PermissionPolicyInput,
+    actorId: string,
+  ): Promise<PermissionPolicyEntity> {
+    const permission = await this.permissionRepository.findOne({
+      where: { name: input.permission, is_active: true },
+    });
+    if (!permission) {
+      throw new InvalidPermissionException(input.permission, 'Permission does not exist');
+    }
+
+    const now = new Date();
+    const policy = await this.policyRepository.save(
+      this.policyRepository.create({
+        permission_id: permission.id,
+        name: input.name,
+        description: input.description,
+        conditions: input.conditions,
+        is_active: true,
+        created_at: now,
+        updated_at: now,
+      }),
+    );
+
+    await this.cacheService.invalidatePolicies();
+    await this.auditService.logPermissionModification(actorId, input.permission, {
+      operation: 'create-policy',
+      policyId: policy.id,
+      policy: input.name,
+      conditions: input.conditions,
+    });
+
+    return policy;
+  }
+
+  async deactivatePolicy(id: number, actorId: string): Promise<PermissionPolicyEntity> {
+    const policy = await this.policyRepository.findOne({
+      where: { id },
+      relations: ['permission'],
+    });
+    if (!policy) {
+      throw new InvalidPermissionException(String(id), 'Policy does not exist');
+    }
+
+    policy.is_active = false;
+    policy.updated_at = new Date();
+    const saved = await this.policyRepository.save(policy);
+
+    await this.cacheService.invalidatePolicies();
+    await this.auditService.logPermissionModification(actorId, policy.permission.name, {
+      operation: 'deactivate-policy',
+      policyId: policy.id,
+      policy: policy.name,
+    });
+
+    return saved;
+  }
+
+  private mapPolicyEntity(policy: PermissionPolicyEntity): PermissionPolicy {
+    return {
+      id: policy.id,
+      permission_id: policy.permission_id,
+      name: policy.name,
+      description: policy.description,
+      conditions: policy.conditions,
+      is_active: policy.is_active,
+      created_at: policy.created_at,
+      updated_at: policy.updated_at,
+    };
+  }
+
+  private findFailedCondition(rule: PolicyRule, context: PolicyContext): PolicyRule | null {
+    if ('all' in rule) {
+      for (const child of rule.all) {
+        const failed = this.findFailedCondition(child, context);
+        if (failed) {
+          return failed;
+        }
+      }
+      return null;
+    }
+
+    if ('any' in rule) {
+      const passed = rule.any.some((child) => !this.findFailedCondition(child, context));
+      return passed ? null : rule;
+    }
+
+    if ('not' in rule) {
+      return this.findFailedCondition(rule.not, context) ? null : rule;
+    }
+
+    return this.testCondition(rule, context) ? null : rule;
+  }
+
+  private testCondition(condition: PolicyCondition, context: PolicyContext): boolean {
+    const actual = this.resolvePath(context, condition.field);
+    const expected =
+      condition.valueFrom !== undefined
+        ? this.resolvePath(context, condition.valueFrom)
+        : condition.value;
+
+    switch (condition.operator) {
+      case 'eq':
+        return this.isEqual(actual, expected);
+      case 'ne':
+        return !this.isEqual(actual, expected);
+      case 'in':
+        return Array.isArray(expected) && expected.some((value) => this.isEqual(actual, value));
+      case 'nin':
+        return Array.isArray(expected) && !expected.some((value) => this.isEqual(actual, value));
+      case 'contains':
+        return Array.isArray(actual) && actual.some((value) => this.isEqual(value, expected));
+      case 'gt':
+        return this.compare(actual, expected) > 0;
+      case 'gte':
+        return this.compare(actual, expected) >= 0;
+      case 'lt':
+        return this.compare(actual, expected) < 0;
+      case 'lte':
+        return this.compare(actual, expected) <= 0;
+      case 'exists':
+        return (actual !== undefined && actual !== null) === (expected ?? true);
+      default:
+        return false;
+    }
+  }
+
+  private resolvePath(context: PolicyContext, path: string): unknown {
+    return path
+      .split('.')
+      .reduce<any>(
+        (value, key) => (value === undefined || value === null ? value : value[key]),
+        context,
+      );
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (a === undefined || a === null || b === undefined || b === null) {
+      return false;
+    }
+    // Ids often arrive as strings from the request and as numbers from the database
+    if (typeof a !== 'object' && typeof b !== 'object') {
+      return String(a) === String(b);
+    }
+    return a === b;
+  }
+
+  private compare(a: unknown, b: unknown): number {
+    if (a === undefined || a === null || b === undefined || b === null) {
+      return NaN;
+    }
+    if (a instanceof Date || b instanceof Date) {
+      return new Date(a as any).getTime() - new Date(b as any).getTime();
+    }
+    return Number(a) - Number(b);
+  }
+}
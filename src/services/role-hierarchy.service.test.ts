@@ -0,0 +1,96 @@
+import { DataSource } from 'typeorm';
+import { RoleHierarchyService } from './role-hierarchy.service';
+import { RoleHierarchyException } from '../exceptions/role-hierarchy.exception';
+import {
+  createTestDataSource,
+  createTestServices,
+  seedPermissions,
+  seedRole,
+  TestServices,
+} from '../testing/test-module';
+
+describe('RoleHierarchyService', () => {
+  let dataSource: DataSource;
+  let services: TestServices;
+  let roleHierarchy: RoleHierarchyService;
+
+  beforeEach(async () => {
+    dataSource = await createTestDataSource();
+    await seedPermissions(dataSource, [
+      'posts.read',
+      'posts.write',
+      'users.manage',
+      'billing.read',
+    ]);
+    await seedRole(dataSource, 'viewer', 10, ['posts.read']);
+    await seedRole(dataSource, 'editor', 20, ['posts.write']);
+    await seedRole(dataSource, 'accountant', 20, ['billing.read']);
+    await seedRole(dataSource, 'admin', 30, ['users.manage', '!billing.read']);
+    services = await createTestServices(dataSource);
+    roleHierarchy = services.roleHierarchyService;
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  const names = (permissions: { name: string }[]) => permissions.map((p) => p.name).sort();
+
+  it('resolves permissions through several inheritance paths', async () => {
+    await roleHierarchy.addInheritance('editor', 'viewer');
+    await roleHierarchy.addInheritance('admin', 'editor');
+    await roleHierarchy.addInheritance('admin', 'viewer');
+
+    expect(roleHierarchy.getInheritedRoles('admin').sort()).toEqual(['admin', 'editor', 'viewer']);
+    expect(names(await roleHierarchy.getInheritedPermissions('admin'))).toEqual([
+      'posts.read',
+      'posts.write',
+      'users.manage',
+    ]);
+  });
+
+  it('lets a deny anywhere in the inherited roles win', async () => {
+    await roleHierarchy.addInheritance('admin', 'accountant');
+
+    expect(names(await roleHierarchy.getInheritedPermissions('admin'))).toEqual(['users.manage']);
+    expect(await roleHierarchy.getInheritedDenials('admin')).toEqual([
+      { permission: 'billing.read', source: 'role', role: 'admin' },
+    ]);
+  });
+
+  it('persists inheritance and reloads it', async () => {
+    await roleHierarchy.addInheritance('editor', 'viewer');
+
+    const reloaded = await createTestServices(dataSource);
+    expect(reloaded.roleHierarchyService.getHierarchy().editor).toEqual({
+      level: 20,
+      inherits: ['viewer'],
+    });
+
+    await roleHierarchy.removeInheritance('editor', 'viewer');
+    expect(roleHierarchy.getInheritedRoles('editor')).toEqual(['editor']);
+  });
+
+  it('builds a tree with several roots', async () => {
+    await roleHierarchy.addInheritance('editor', 'viewer');
+    await roleHierarchy.addInheritance('accountant', 'viewer');
+
+    const tree = await roleHierarchy.buildRoleTree(roleHierarchy.getHierarchy());
+    expect(tree.map((node) => node.role).sort()).toEqual(['accountant', 'admin', 'editor']);
+
+    // Nodes reachable from several parents are shared
+    const viewer = tree.find((node) => node.role === 'editor')?.children[0];
+    expect(tree.find((node) => node.role === 'accountant')?.children[0]).toBe(viewer);
+  });
+
+  it('rejects cycles and inheriting a higher level', async () => {
+    await roleHierarchy.addInheritance('editor', 'viewer');
+
+    await expect(roleHierarchy.addInheritance('viewer', 'editor')).rejects.toBeInstanceOf(
+      RoleHierarchyException,
+    );
+    await expect(roleHierarchy.addInheritance('editor', 'admin')).rejects.toBeInstanceOf(
+      RoleHierarchyException,
+    );
+  });
+});
@@ -1,11 +1,22 @@
-import { Injectable } from '@nestjs/common';
-import { Permission } from '../interfaces/permission.interface';
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Permission, PermissionDenial } from '../interfaces/permission.interface';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { PermissionEntity } from '../models/permission.entity';
 import { RoleHierarchyException } from '../exceptions/role-hierarchy.exception';
+import { RoleNotFoundException } from '../exceptions/permission.exceptions';
 import 'reflect-metadata';
 import { ConfigService } from './config.service';
+import { RoleEntity } from '../models/role.entity';
+import { RolePermissionEntity } from '../models/role-permission.entity';
+import { RoleInheritanceEntity } from '../models/role-inheritance.entity';
+import { RoleHierarchy } from '../interfaces/role.interface';
+import { PermissionCacheService } from './permission-cache.service';
+
+export interface RoleGrants {
+  allowed: Permission[];
+  denied: Permission[];
+}
 
 export interface RoleNode {
   role: string;
@@ -14,118 +25,277 @@ export interface RoleNode {
   permissions: Set<string>;
 }
 
-export interface RoleHierarchy {
-  [role: string]: {
-    level: number;
-    inherits?: string[];
-  };
-}
-
 @Injectable()
-export class RoleHierarchyService {
-  private roleTree: RoleNode | null = null;
-  private rolePermissions: Map<string, Set<string>> = new Map();
+export class RoleHierarchyService implements OnModuleInit {
+  private hierarchy: RoleHierarchy = {};
+  private roleTree: RoleNode[] | null = null;
+  private inheritedRoles: Map<string, string[]> = new Map();
 
   constructor(
     @InjectRepository(PermissionEntity)
     private readonly permissionRepository: Repository<PermissionEntity>,
+    @InjectRepository(RolePermissionEntity)
+    private readonly rolePermissionRepository: Repository<RolePermissionEntity>,
+    @InjectRepository(RoleEntity)
+    private readonly roleRepository: Repository<RoleEntity>,
+    @InjectRepository(RoleInheritanceEntity)
+    private readonly roleInheritanceRepository: Repository<RoleInheritanceEntity>,
     private readonly configService: ConfigService,
+    private readonly cacheService: PermissionCacheService,
   ) {}
 
-  async buildRoleTree(hierarchy: RoleHierarchy): Promise<RoleNode> {
-    // Find root roles (those with no parents)
+  async onModuleInit(): Promise<void> {
+    // Reload when another instance changes the persisted hierarchy, that instance already
+    // dropped the shared role and user entries
+    this.cacheService.onInvalidate(async (event) => {
+      if (this.cacheService.matches(event, 'hierarchy')) {
+        await this.loadHierarchy();
+      }
+    });
+
+    await this.loadHierarchy();
+  }
+
+  async loadHierarchy(): Promise<RoleHierarchy> {
+    const roles = await this.roleRepository.find({ where: { is_active: true } });
+    const inheritance = await this.roleInheritanceRepository.find({
+      relations: ['role', 'inheritedRole'],
+    });
+
+    // Configured roles seed the hierarchy, persisted roles take precedence
+    const hierarchy: RoleHierarchy = {
+      ...this.configService.getConfig().permissions.roleHierarchy,
+    };
+    roles.forEach((role) => {
+      hierarchy[role.name] = { level: role.level, inherits: [] };
+    });
+
+    // Skip edges that point at inactive or unknown roles
+    inheritance.forEach((edge) => {
+      const role = edge.role && roles.find((r) => r.id === edge.role.id);
+      const inherited = edge.inheritedRole && roles.find((r) => r.id === edge.inheritedRole.id);
+      if (role && inherited) {
+        hierarchy[role.name].inherits?.push(inherited.name);
+      }
+    });
+
+    this.setHierarchy(hierarchy);
+    return hierarchy;
+  }
+
+  getHierarchy(): RoleHierarchy {
+    return this.hierarchy;
+  }
+
+  async buildRoleTree(hierarchy: RoleHierarchy): Promise<RoleNode[]> {
+    // Cached role permissions were resolved through the previous hierarchy
+    if (this.setHierarchy(hierarchy)) {
+      await this.cacheService.invalidateRoles();
+    }
+
+    // Find root roles (those no other role inherits from)
     const roles = Object.keys(hierarchy);
     const childRoles = new Set(roles.flatMap((role) => hierarchy[role].inherits || []));
     const rootRoles = roles.filter((role) => !childRoles.has(role));
 
-    // Build tree starting from root roles
-    this.roleTree = await this.buildRoleNode(rootRoles[0], hierarchy);
+    // Build a node for every root, sharing nodes reachable from several parents
+    const nodes = new Map<string, RoleNode>();
+    const roots: RoleNode[] = [];
+    for (const role of rootRoles) {
+      roots.push(await this.buildRoleNode(role, hierarchy, nodes));
+    }
+
+    this.roleTree = roots;
     return this.roleTree;
   }
 
-  private async buildRoleNode(role: string, hierarchy: RoleHierarchy): Promise<RoleNode> {
+  private async buildRoleNode(
+    role: string,
+    hierarchy: RoleHierarchy,
+    nodes: Map<string, RoleNode>,
+  ): Promise<RoleNode> {
+    const existing = nodes.get(role);
+    if (existing) {
+      return existing;
+    }
+
     const { level, inherits = [] } = hierarchy[role];
-    const children: RoleNode[] = [];
+    const node: RoleNode = { role, level, children: [], permissions: new Set() };
+    nodes.set(role, node);
 
     // Recursively build child nodes
     for (const childRole of inherits) {
-      const childNode = await this.buildRoleNode(childRole, hierarchy);
-      children.push(childNode);
+      if (hierarchy[childRole]) {
+        node.children.push(await this.buildRoleNode(childRole, hierarchy, nodes));
+      }
     }
 
     // Get permissions for this role
-    const permissions = await this.getRolePermissions(role);
+    const { allowed } = await this.getRolePermissions(role);
+    node.permissions = new Set(allowed.map((p) => String(p.id)));
 
-    return {
-      role,
-      level,
-      children,
-      permissions: new Set(permissions.map((p) => String(p.id))),
-    };
+    return node;
   }
 
-  async getInheritedPermissions(role: string): Promise<Permission[]> {
-    if (!this.roleTree) {
-      throw new Error('Role hierarchy not initialized');
+  getInheritedRoles(role: string): string[] {
+    const cached = this.inheritedRoles.get(role);
+    if (cached) {
+      return cached;
+    }
+
+    // The hierarchy is validated to be acyclic, so a plain DFS terminates
+    const resolved = new Set<string>([role]);
+    for (const inheritedRole of this.hierarchy[role]?.inherits || []) {
+      this.getInheritedRoles(inheritedRole).forEach((r) => resolved.add(r));
     }
 
-    // Find the role node
-    const roleNode = this.findRoleNode(this.roleTree, role);
-    if (!roleNode) {
-      throw new Error(`Role not found: ${role}`);
+    const roles = [...resolved];
+    this.inheritedRoles.set(role, roles);
+    return roles;
+  }
+
+  async getInheritedPermissions(role: string): Promise<Permission[]> {
+    const cacheKey = this.cacheService.roleKey(role, 'inherited');
+    const cached = await this.cacheService.get<Permission[]>(cacheKey);
+    if (cached) {
+      return cached;
     }
 
     // Get all permissions including inherited ones
-    const permissionIds = new Set<string>();
-    this.collectPermissions(roleNode, permissionIds);
+    const permissions = new Map<number, Permission>();
+    for (const inheritedRole of this.getInheritedRoles(role)) {
+      const { allowed } = await this.getRolePermissions(inheritedRole);
+      allowed.forEach((permission) => permissions.set(permission.id, permission));
+    }
 
-    // Fetch actual permission objects and ensure they match the Permission interface
-    const permissions = await this.permissionRepository.findByIds([...permissionIds]);
-    return permissions.map(this.mapPermissionEntity);
+    // A deny anywhere in the inherited roles removes the permission
+    const denied = new Set((await this.getInheritedDenials(role)).map((d) => d.permission));
+    const result = [...permissions.values()].filter((p) => !denied.has(p.name));
+    await this.cacheService.set(cacheKey, result);
+    return result;
   }
 
-  private findRoleNode(node: RoleNode, role: string): RoleNode | null {
-    if (node.role === role) {
-      return node;
+  async getPermissionsForRoles(roles: string[]): Promise<Permission[]> {
+    const permissions = new Map<number, Permission>();
+    for (const role of roles) {
+      const rolePermissions = await this.getInheritedPermissions(role);
+      rolePermissions.forEach((permission) => permissions.set(permission.id, permission));
     }
 
-    for (const child of node.children) {
-      const found = this.findRoleNode(child, role);
-      if (found) {
-        return found;
-      }
+    return [...permissions.values()];
+  }
+
+  async getInheritedDenials(role: string): Promise<PermissionDenial[]> {
+    const denials: PermissionDenial[] = [];
+    for (const inheritedRole of this.getInheritedRoles(role)) {
+      const { denied } = await this.getRolePermissions(inheritedRole);
+      denied.forEach((p) =>
+        denials.push({ permission: p.name, source: 'role', role: inheritedRole }),
+      );
     }
 
-    return null;
+    return denials;
   }
 
-  private collectPermissions(node: RoleNode, collected: Set<string>): void {
-    // Add this node's permissions
-    node.permissions.forEach((p) => collected.add(p));
+  async getDenialsForRoles(roles: string[]): Promise<PermissionDenial[]> {
+    const denials: PermissionDenial[] = [];
+    for (const role of roles) {
+      denials.push(...(await this.getInheritedDenials(role)));
+    }
+
+    return denials;
+  }
+
+  async addInheritance(role: string, inheritedRole: string): Promise<void> {
+    const roleEntity = await this.findRole(role);
+    const inheritedEntity = await this.findRole(inheritedRole);
+
+    const current = this.hierarchy[role]?.inherits || [];
+    if (current.includes(inheritedRole)) {
+      return;
+    }
 
-    // Add children's permissions
-    for (const child of node.children) {
-      this.collectPermissions(child, collected);
+    // Validate the resulting hierarchy before persisting the edge
+    const candidate: RoleHierarchy = {
+      ...this.hierarchy,
+      [role]: { level: roleEntity.level, inherits: [...current, inheritedRole] },
+      [inheritedRole]: this.hierarchy[inheritedRole] || { level: inheritedEntity.level },
+    };
+    if (!this.validateRoleHierarchy(candidate)) {
+      throw new RoleHierarchyException(
+        `Invalid role hierarchy: '${role}' cannot inherit from '${inheritedRole}'`,
+      );
     }
+
+    await this.roleInheritanceRepository.save({
+      role_id: roleEntity.id,
+      inherited_role_id: inheritedEntity.id,
+      created_at: new Date(),
+    });
+
+    // Other instances reload on the invalidation event
+    await this.loadHierarchy();
+    await this.cacheService.invalidateHierarchy();
   }
 
-  private async getRolePermissions(role: string): Promise<Permission[]> {
+  async removeInheritance(role: string, inheritedRole: string): Promise<void> {
+    const roleEntity = await this.findRole(role);
+    const inheritedEntity = await this.findRole(inheritedRole);
+
+    const { affected } = await this.roleInheritanceRepository.delete({
+      role_id: roleEntity.id,
+      inherited_role_id: inheritedEntity.id,
+    });
+    if (affected === 0) {
+      return;
+    }
+
+    await this.loadHierarchy();
+    await this.cacheService.invalidateHierarchy();
+  }
+
+  private async findRole(name: string): Promise<RoleEntity> {
+    const role = await this.roleRepository.findOne({ where: { name, is_active: true } });
+    if (!role) {
+      throw new RoleNotFoundException(name);
+    }
+    return role;
+  }
+
+  private setHierarchy(hierarchy: RoleHierarchy): boolean {
+    this.validateHierarchy(hierarchy);
+    const changed = JSON.stringify(hierarchy) !== JSON.stringify(this.hierarchy);
+
+    // Only the in-process resolution depends on the hierarchy object itself
+    this.hierarchy = hierarchy;
+    this.inheritedRoles.clear();
+    this.roleTree = null;
+    return changed;
+  }
+
+  async getRolePermissions(role: string): Promise<RoleGrants> {
     // Check cache
-    const cachedPermissions = this.rolePermissions.get(role);
+    const cacheKey = this.cacheService.roleKey(role);
+    const cachedPermissions = await this.cacheService.get<RoleGrants>(cacheKey);
     if (cachedPermissions) {
-      const permissions = await this.permissionRepository.findByIds([...cachedPermissions]);
-      return permissions.map(this.mapPermissionEntity);
+      return cachedPermissions;
     }
 
-    // Fetch permissions from database
-    const permissions = await this.permissionRepository.find({
-      where: { name: role, is_active: true },
-    });
+    // Fetch permissions assigned to the role from database
+    const rolePermissions = await this.findRolePermissions(role);
+    const grants: RoleGrants = {
+      allowed: rolePermissions
+        .filter((rp) => rp.effect !== 'deny')
+        .map((rp) => this.mapPermissionEntity(rp.permission)),
+      denied: rolePermissions
+        .filter((rp) => rp.effect === 'deny')
+        .map((rp) => this.mapPermissionEntity(rp.permission)),
+    };
 
     // Cache the results
-    this.rolePermissions.set(role, new Set(permissions.map((p) => String(p.id))));
+    await this.cacheService.set(cacheKey, grants);
 
-    return permissions.map(this.mapPermissionEntity);
+    return grants;
   }
 
   validateRoleHierarchy(hierarchy: RoleHierarchy): boolean {
@@ -204,28 +374,37 @@ export class RoleHierarchyService {
       recursionStack.delete(currentRole);
     };
 
-    Object.keys(hierarchy).forEach(checkCircular);
+    Object.keys(hierarchy).forEach((role) => {
+      if (!visited.has(role)) {
+        checkCircular(role);
+      }
+    });
   }
 
-  clearCache(): void {
-    this.rolePermissions.clear();
+  async clearCache(): Promise<void> {
+    this.inheritedRoles.clear();
     this.roleTree = null;
+    await this.cacheService.invalidateRoles();
   }
 
   async getPermissionsByRole(role: string): Promise<PermissionEntity[]> {
-    return this.permissionRepository
-      .createQueryBuilder('p')
-      .where('p.name = :role AND p.is_active = :isActive', { role, isActive: true })
-      .getMany();
+    const rolePermissions = await this.findRolePermissions(role);
+    return rolePermissions.filter((rp) => rp.effect !== 'deny').map((rp) => rp.permission);
   }
 
-  async getRoleHierarchy(role: string): Promise<PermissionEntity[]> {
-    const permissions = await this.permissionRepository
-      .createQueryBuilder('p')
-      .where('p.name = :role AND p.is_active = :isActive', { role, isActive: true })
-      .getMany();
+  private async findRolePermissions(role: string): Promise<RolePermissionEntity[]> {
+    return this.rolePermissionRepository.find({
+      where: {
+        role: { name: role, is_active: true },
+        permission: { is_active: true },
+      },
+      relations: ['role', 'permission'],
+    });
+  }
 
-    return permissions;
+  async getRoleHierarchy(role: string): Promise<PermissionEntity[]> {
+    const permissions = await this.getInheritedPermissions(role);
+    return this.permissionRepository.findByIds(permissions.map((p) => p.id));
   }
 
   private mapPermissionEntity(permission: PermissionEntity): Permission {
@@ -1,8 +1,10 @@
 import { Injectable } from '@nestjs/common';
 import { EntityMetadata } from 'typeorm';
 import { PermissionConfig } from '../interfaces/config.interface';
+import { HttpMethod } from '../interfaces/router.interface';
+import { HTTP_METHODS, PERMISSIONS_CONFIG_EXPORTS } from '../constants';
+import { ConfigLoader } from '../utils/config-loader.util';
 import * as path from 'path';
-import * as fs from 'fs';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -40,6 +42,40 @@ export class SchemaValidatorService {
       result,
     );
 
+    // Validate role entity fields when configured
+    const { roles, rolePermissions, userRoles, roleInheritance, permissionPolicies } =
+      config.database.entities;
+    if (roles) {
+      this.validateEntityFields(roles.fields, ['id', 'name'], 'roles', result);
+    }
+    if (rolePermissions) {
+      this.validateEntityFields(
+        rolePermissions.fields,
+        ['id', 'roleId', 'permissionId'],
+        'rolePermissions',
+        result,
+      );
+    }
+    if (userRoles) {
+      this.validateEntityFields(userRoles.fields, ['id', 'userId', 'roleId'], 'userRoles', result);
+    }
+    if (roleInheritance) {
+      this.validateEntityFields(
+        roleInheritance.fields,
+        ['id', 'roleId', 'inheritedRoleId'],
+        'roleInheritance',
+        result,
+      );
+    }
+    if (permissionPolicies) {
+      this.validateEntityFields(
+        permissionPolicies.fields,
+        ['id', 'permissionId', 'name', 'conditions'],
+        'permissionPolicies',
+        result,
+      );
+    }
+
     result.isValid = result.errors.length === 0;
     return result;
   }
@@ -130,17 +166,20 @@ export class SchemaValidatorService {
 
   async validateConfig(projectPath: string): Promise<boolean> {
     try {
-      const tsConfigPath = path.join(projectPath, 'config', 'permissions.config.ts');
+      const configDir = path.join(projectPath, 'config');
+      const loaded = await ConfigLoader.load<PermissionConfig>('permissions', {
+        directory: configDir,
+        exportNames: PERMISSIONS_CONFIG_EXPORTS,
+      });
       // Check if config file exists
-      if (!fs.existsSync(tsConfigPath)) {
-        console.error('Configuration file not found. Expected:', tsConfigPath);
-        return false;
-      }
-      // Read and validate the configuration file
-      const config = await this.loadConfig(tsConfigPath);
-      if (!config) {
+      if (!loaded) {
+        console.error(
+          'Configuration file not found. Expected one of:',
+          ConfigLoader.extensions.map((ext) => path.join(configDir, `permissions.config${ext}`)),
+        );
         return false;
       }
+      const { config } = loaded;
 
       // Validate required top-level properties
       if (!this.validateTopLevelConfig(config)) {
@@ -172,22 +211,11 @@ export class SchemaValidatorService {
       console.log('Configuration validation successful');
       return true;
     } catch (error) {
-      console.error('Error validating configuration:', error);
+      console.error('Error validating configuration:', error.message);
       return false;
     }
   }
 
-  private async loadConfig(configPath: string): Promise<PermissionConfig | null> {
-    try {
-      const configFileContent = fs.readFileSync(configPath, 'utf8');
-      const [, fileContent] = configFileContent.split('=');
-      return JSON.parse(fileContent);
-    } catch (error) {
-      console.error('Error loading configuration file:', error);
-      return null;
-    }
-  }
-
   private validateTopLevelConfig(config: any): boolean {
     const requiredProperties = ['database', 'permissions', 'security'];
     for (const prop of requiredProperties) {
@@ -224,6 +252,22 @@ export class SchemaValidatorService {
       }
     }
 
+    // Role and policy entities fall back to the defaults when omitted
+    const optionalEntities = [
+      'roles',
+      'rolePermissions',
+      'userRoles',
+      'roleInheritance',
+      'permissionPolicies',
+    ];
+    for (const entity of optionalEntities) {
+      const entityConfig = database.entities[entity];
+      if (entityConfig && (!entityConfig.tableName || !entityConfig.fields)) {
+        console.error(`Invalid entity configuration: ${entity} requires tableName and fields`);
+        return false;
+      }
+    }
+
     return true;
   }
 
@@ -250,6 +294,90 @@ export class SchemaValidatorService {
       return false;
     }
 
+    if (
+      permissions.expirySweepInterval !== undefined &&
+      (typeof permissions.expirySweepInterval !== 'number' || permissions.expirySweepInterval < 0)
+    ) {
+      console.error('expirySweepInterval must be a positive number of seconds');
+      return false;
+    }
+
+    if (
+      permissions.routeRefreshInterval !== undefined &&
+      (typeof permissions.routeRefreshInterval !== 'number' || permissions.routeRefreshInterval < 0)
+    ) {
+      console.error('routeRefreshInterval must be a positive number of seconds');
+      return false;
+    }
+
+    if (
+      permissions.errorDetail !== undefined &&
+      !['detailed', 'generic'].includes(permissions.errorDetail)
+    ) {
+      console.error('errorDetail must be either "detailed" or "generic"');
+      return false;
+    }
+
+    if (
+      permissions.decisionHeader !== undefined &&
+      typeof permissions.decisionHeader !== 'boolean'
+    ) {
+      console.error('decisionHeader must be a boolean');
+      return false;
+    }
+
+    if (
+      permissions.tenant !== undefined &&
+      !['header', 'subdomain', 'claim'].includes(permissions.tenant?.source)
+    ) {
+      console.error('tenant.source must be one of "header", "subdomain" or "claim"');
+      return false;
+    }
+
+    for (const route of permissions.publicRoutes) {
+      if (!this.validatePublicRoute(route)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private validatePublicRoute(route: any): boolean {
+    if (typeof route === 'string' || route instanceof RegExp) {
+      return true;
+    }
+
+    if (!route || typeof route !== 'object') {
+      console.error(
+        'publicRoutes entries must be a string, a RegExp or a { path, methods } object',
+      );
+      return false;
+    }
+
+    if (typeof route.path !== 'string' && !(route.path instanceof RegExp)) {
+      console.error('publicRoutes entry path must be a string or a RegExp');
+      return false;
+    }
+
+    if (route.methods !== undefined) {
+      if (!Array.isArray(route.methods)) {
+        console.error(`publicRoutes methods for ${route.path} must be an array`);
+        return false;
+      }
+
+      const invalidMethods = route.methods.filter(
+        (method: any) =>
+          typeof method !== 'string' || !HTTP_METHODS.includes(method.toUpperCase() as HttpMethod),
+      );
+      if (invalidMethods.length > 0) {
+        console.error(
+          `Invalid publicRoutes methods for ${route.path}: ${invalidMethods.join(', ')}`,
+        );
+        return false;
+      }
+    }
+
     return true;
   }
 
@@ -3,6 +3,8 @@ import { SecurityConfig } from '../interfaces/security.interface';
 import { defaultSecurityConfig } from '../config/default-security.config';
 import * as fs from 'fs';
 import * as path from 'path';
+import { SECURITY_CONFIG_EXPORTS } from '../constants';
+import { ConfigLoader } from '../utils/config-loader.util';
 
 export interface SecurityTemplate {
   name: string;
@@ -129,11 +131,11 @@ export class SecurityConfigPublisherService {
     }
 
     try {
-      // Read existing config
-      const configContent = fs.readFileSync(configPath, 'utf8');
-
-      // Parse the existing config
-      const currentConfig = this.parseConfigFile(configContent);
+      // Load the existing config
+      const currentConfig = await ConfigLoader.loadFile<SecurityConfig>(
+        configPath,
+        SECURITY_CONFIG_EXPORTS,
+      );
 
       // Merge updates
       const updatedConfig = this.mergeConfigs(currentConfig, updates);
@@ -198,21 +200,6 @@ export class SecurityConfigPublisherService {
     return `export const securityConfig = ${JSON.stringify(fullConfig, null, 2)};\n`;
   }
 
-  private parseConfigFile(content: string): SecurityConfig {
-    try {
-      // Remove imports and exports
-      const configString = content
-        .replace(/import.*?;/g, '')
-        .replace(/export.*?const.*?=/, '')
-        .replace(/;$/, '')
-        .trim();
-
-      return JSON.parse(configString);
-    } catch (error) {
-      throw new Error('Failed to parse security config file');
-    }
-  }
-
   private mergeConfigs(
     base: Partial<SecurityConfig>,
     updates: Partial<SecurityConfig>,
@@ -0,0 +1,111 @@
+import { ExecutionContext } from '@nestjs/common';
+
+export interface HttpContextOptions {
+  user?: any;
+  method?: string;
+  // Concrete request path, defaults to the route pattern
+  path?: string;
+  // Matched route pattern, null when Express matched none
+  route?: string | null;
+  headers?: Record<string, string>;
+  hostname?: string;
+  body?: any;
+  params?: Record<string, string>;
+  // Controller class and handler carrying the decorators
+  controller?: new (...args: any[]) => any;
+  handler?: string;
+}
+
+export interface HttpTestContext extends ExecutionContext {
+  request: Record<string, any>;
+  response: { headers: Record<string, string>; setHeader(name: string, value: string): void };
+}
+
+class DefaultController {
+  handle(): void {
+    return undefined;
+  }
+}
+
+/**
+ * Minimal HTTP ExecutionContext as Express would hand it to a guard.
+ */
+export function createHttpContext(options: HttpContextOptions = {}): HttpTestContext {
+  const controller = options.controller || DefaultController;
+  const handler = controller.prototype[options.handler || 'handle'];
+  const route = options.route === null ? undefined : (options.route ?? options.path ?? '/');
+
+  const request: Record<string, any> = {
+    user: options.user,
+    method: (options.method || 'GET').toUpperCase(),
+    path: options.path ?? route,
+    route: route === undefined ? undefined : { path: route },
+    headers: options.headers || {},
+    hostname: options.hostname || 'localhost',
+    body: options.body,
+    params: options.params || {},
+  };
+  const response = {
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+  };
+
+  return {
+    request,
+    response,
+    getType: () => 'http',
+    getClass: () => controller,
+    getHandler: () => handler,
+    getArgs: () => [request, response],
+    getArgByIndex: (index: number) => [request, response][index],
+    switchToHttp: () => ({
+      getRequest: () => request,
+      getResponse: () => response,
+      getNext: () => undefined,
+    }),
+    switchToRpc: () => {
+      throw new Error('Not an RPC context');
+    },
+    switchToWs: () => {
+      throw new Error('Not a WebSocket context');
+    },
+  } as unknown as HttpTestContext;
+}
+
+/**
+ * ExecutionContext of another transport, built from the handler arguments.
+ */
+export function createTransportContext(
+  type: 'graphql' | 'ws' | 'rpc',
+  args: any[],
+  options: Pick<HttpContextOptions, 'controller' | 'handler'> & {
+    pattern?: string;
+  } = {},
+): ExecutionContext {
+  const controller = options.controller || DefaultController;
+  const handler = controller.prototype[options.handler || 'handle'];
+
+  return {
+    getType: () => type,
+    getClass: () => controller,
+    getHandler: () => handler,
+    getArgs: () => args,
+    getArgByIndex: (index: number) => args[index],
+    switchToHttp: () => ({
+      getRequest: () => undefined,
+      getResponse: () => undefined,
+      getNext: () => undefined,
+    }),
+    switchToWs: () => ({
+      getClient: () => args[0],
+      getData: () => args[1],
+      getPattern: () => options.pattern,
+    }),
+    switchToRpc: () => ({
+      getData: () => args[0],
+      getContext: () => args[1],
+    }),
+  } as unknown as ExecutionContext;
+}
@@ -0,0 +1,103 @@
+import { RedisClientLike, RedisSubscriberLike } from '../cache/redis-cache.store';
+
+type MessageListener = (channel: string, message: string) => void;
+
+/**
+ * In-memory stand-in for one Redis server, shared by the clients of several instances.
+ */
+export class FakeRedisServer {
+  readonly values = new Map<string, { value: string; expiresAt: number }>();
+  readonly subscribers = new Set<FakeRedisSubscriber>();
+
+  client(): FakeRedisClient {
+    return new FakeRedisClient(this);
+  }
+
+  subscriber(): FakeRedisSubscriber {
+    return new FakeRedisSubscriber(this);
+  }
+
+  keys(): string[] {
+    return [...this.values.keys()].sort();
+  }
+}
+
+export class FakeRedisClient implements RedisClientLike {
+  readonly published: Array<{ channel: string; message: string }> = [];
+
+  constructor(private readonly server: FakeRedisServer) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.server.values.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, mode: 'EX', seconds: number): Promise<unknown> {
+    this.server.values.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter((key) => this.server.values.delete(key)).length;
+  }
+
+  async scan(cursor: string, ...args: Array<string | number>): Promise<[string, string[]]> {
+    const pattern = String(args[args.indexOf('MATCH') + 1]);
+    const count = Number(args[args.indexOf('COUNT') + 1]);
+
+    // Redis glob, with backslash escapes
+    const source = pattern.replace(/\\(.)|([*?])|([.+^${}()|[\]])/g, (_, escaped, glob, special) =>
+      escaped !== undefined
+        ? escaped.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        : glob
+          ? `.${glob === '*' ? '*' : ''}`
+          : `\\${special}`,
+    );
+    const regex = new RegExp(`^${source}$`);
+
+    // The cursor is the last key returned, so keys deleted between calls do not shift pages
+    const after = cursor === '0' ? '' : Buffer.from(cursor, 'base64').toString();
+    const keys = this.server.keys().filter((key) => key > after);
+    const page = keys.slice(0, count);
+    const next = keys.length > count ? Buffer.from(page[page.length - 1]).toString('base64') : '0';
+    return [next, page.filter((key) => regex.test(key))];
+  }
+
+  async publish(channel: string, message: string): Promise<number> {
+    this.published.push({ channel, message });
+    const receivers = [...this.server.subscribers].filter((s) => s.channels.has(channel));
+    receivers.forEach((subscriber) => subscriber.deliver(channel, message));
+    return receivers.length;
+  }
+}
+
+export class FakeRedisSubscriber implements RedisSubscriberLike {
+  readonly channels = new Set<string>();
+  private readonly listeners: MessageListener[] = [];
+
+  constructor(private readonly server: FakeRedisServer) {
+    server.subscribers.add(this);
+  }
+
+  async subscribe(channel: string): Promise<unknown> {
+    this.channels.add(channel);
+    return 1;
+  }
+
+  async unsubscribe(channel: string): Promise<unknown> {
+    this.channels.delete(channel);
+    return 0;
+  }
+
+  on(event: 'message', listener: MessageListener): unknown {
+    this.listeners.push(listener);
+    return this;
+  }
+
+  deliver(channel: string, message: string): void {
+    this.listeners.forEach((listener) => listener(channel, message));
+  }
+}
@@ -0,0 +1,204 @@
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { DataSource, Repository } from 'typeorm';
+import { PermissionEntity } from '../models/permission.entity';
+import { RouterPermissionEntity } from '../models/router-permission.entity';
+import { UserPermissionEntity } from '../models/user-permission.entity';
+import { AuditLogEntity } from '../models/audit-log.entity';
+import { RoleEntity } from '../models/role.entity';
+import { RolePermissionEntity } from '../models/role-permission.entity';
+import { UserRoleEntity } from '../models/user-role.entity';
+import { RoleInheritanceEntity } from '../models/role-inheritance.entity';
+import { PermissionPolicyEntity } from '../models/permission-policy.entity';
+import { PermissionConfig } from '../interfaces/config.interface';
+import { SecurityConfig } from '../interfaces/security.interface';
+import { PermissionCacheStore } from '../interfaces/cache.interface';
+import { ConfigService } from '../services/config.service';
+import { PermissionCacheService } from '../services/permission-cache.service';
+import { AuditService } from '../services/audit.service';
+import { RoleHierarchyService } from '../services/role-hierarchy.service';
+import { PermissionService } from '../services/permission.service';
+import { PolicyEvaluatorService } from '../services/policy-evaluator.service';
+import { MemoryCacheStore } from '../cache/memory-cache.store';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { PermissionsModuleOptions } from '../interfaces/module-options.interface';
+import { EntityMapper } from '../utils/entity-mapping.util';
+
+export const TEST_ENTITIES = [
+  PermissionEntity,
+  RouterPermissionEntity,
+  UserPermissionEntity,
+  AuditLogEntity,
+  RoleEntity,
+  RolePermissionEntity,
+  UserRoleEntity,
+  RoleInheritanceEntity,
+  PermissionPolicyEntity,
+];
+
+/**
+ * In-memory SQLite database, built by sql.js so no native driver is needed.
+ */
+export async function createTestDataSource(
+  options: { synchronize?: boolean } = {},
+): Promise<DataSource> {
+  EntityMapper.applyDialect('sqlite');
+  const dataSource = new DataSource({
+    type: 'sqljs',
+    entities: TEST_ENTITIES,
+    synchronize: options.synchronize ?? true,
+    logging: false,
+  });
+  return dataSource.initialize();
+}
+
+export interface TestServicesOptions {
+  config?: Partial<PermissionConfig>;
+  securityConfig?: Partial<SecurityConfig>;
+  cacheStore?: PermissionCacheStore;
+}
+
+export interface TestServices {
+  dataSource: DataSource;
+  configService: ConfigService;
+  cacheService: PermissionCacheService;
+  auditService: AuditService;
+  roleHierarchyService: RoleHierarchyService;
+  permissionService: PermissionService;
+  policyEvaluator: PolicyEvaluatorService;
+}
+
+/**
+ * Wires the services the way PermissionsModule does, against the given database.
+ */
+export async function createTestServices(
+  dataSource: DataSource,
+  options: TestServicesOptions = {},
+): Promise<TestServices> {
+  const repository = <T extends object>(entity: new () => T): Repository<T> =>
+    dataSource.getRepository(entity);
+
+  const configService = new ConfigService();
+  configService.setConfig(options.config || {}, options.securityConfig);
+
+  const cacheService = new PermissionCacheService(
+    options.cacheStore || new MemoryCacheStore(),
+    configService,
+  );
+  const auditService = new AuditService(repository(AuditLogEntity), configService);
+  const roleHierarchyService = new RoleHierarchyService(
+    repository(PermissionEntity),
+    repository(RolePermissionEntity),
+    repository(RoleEntity),
+    repository(RoleInheritanceEntity),
+    configService,
+    cacheService,
+  );
+  const permissionService = new PermissionService(
+    configService,
+    repository(PermissionEntity),
+    repository(UserPermissionEntity),
+    repository(RouterPermissionEntity),
+    repository(UserRoleEntity),
+    roleHierarchyService,
+    auditService,
+    cacheService,
+  );
+  const policyEvaluator = new PolicyEvaluatorService(
+    repository(PermissionPolicyEntity),
+    repository(PermissionEntity),
+    cacheService,
+    auditService,
+  );
+
+  await roleHierarchyService.onModuleInit();
+  permissionService.onModuleInit();
+
+  return {
+    dataSource,
+    configService,
+    cacheService,
+    auditService,
+    roleHierarchyService,
+    permissionService,
+    policyEvaluator,
+  };
+}
+
+/**
+ * PermissionsGuard over the test services, policy loaders are looked up in `providers`.
+ */
+export function createTestGuard(
+  services: TestServices,
+  moduleOptions: PermissionsModuleOptions = {},
+  providers: Map<unknown, unknown> = new Map(),
+): PermissionsGuard {
+  const moduleRef = { get: (token: unknown) => providers.get(token) } as unknown as ModuleRef;
+  return new PermissionsGuard(
+    new Reflector(),
+    services.permissionService,
+    services.configService,
+    services.auditService,
+    services.policyEvaluator,
+    moduleRef,
+    moduleOptions,
+  );
+}
+
+/**
+ * Inserts active permissions directly, returning them by name.
+ */
+export async function seedPermissions(
+  dataSource: DataSource,
+  names: string[],
+): Promise<Record<string, PermissionEntity>> {
+  const repository = dataSource.getRepository(PermissionEntity);
+  const now = new Date();
+  const saved = await repository.save(
+    names.map((name) =>
+      repository.create({
+        name,
+        description: '',
+        level: 0,
+        is_active: true,
+        created_at: now,
+        updated_at: now,
+      }),
+    ),
+  );
+  return Object.fromEntries(saved.map((permission) => [permission.name, permission]));
+}
+
+/**
+ * Inserts an active role holding the given permissions, `!name` denies a permission.
+ */
+export async function seedRole(
+  dataSource: DataSource,
+  name: string,
+  level: number,
+  permissions: string[] = [],
+): Promise<RoleEntity> {
+  const now = new Date();
+  const role = await dataSource.getRepository(RoleEntity).save({
+    name,
+    description: '',
+    level,
+    is_active: true,
+    created_at: now,
+    updated_at: now,
+  });
+
+  for (const entry of permissions) {
+    const permissionName = entry.replace(/^!/, '');
+    const permission = await dataSource
+      .getRepository(PermissionEntity)
+      .findOneOrFail({ where: { name: permissionName } });
+    await dataSource.getRepository(RolePermissionEntity).save({
+      role_id: role.id,
+      permission_id: permission.id,
+      effect: entry.startsWith('!') ? 'deny' : 'allow',
+      created_at: now,
+    });
+  }
+
+  return role;
+}
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Module from 'module';
+import * as ts from 'typescript';
+import { ConfigLoader } from './config-loader.util';
+import { ConfigurationException } from '../exceptions/configuration.exception';
+
+describe('ConfigLoader', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'permissions-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const write = (fileName: string, content: string) =>
+    fs.writeFileSync(path.join(directory, fileName), content);
+
+  it('merges the overlay of the environment into the base file', async () => {
+    write(
+      'permissions.config.json',
+      JSON.stringify({ database: { type: 'postgres', host: 'localhost' }, publicRoutes: ['/a'] }),
+    );
+    write(
+      'permissions.production.js',
+      "module.exports = { database: { host: 'db' }, publicRoutes: ['/b'] };",
+    );
+
+    await expect(
+      ConfigLoader.load('permissions', { directory, env: 'production' }),
+    ).resolves.toEqual({
+      config: { database: { type: 'postgres', host: 'db' }, publicRoutes: ['/b'] },
+      files: [
+        path.join(directory, 'permissions.config.json'),
+        path.join(directory, 'permissions.production.js'),
+      ],
+    });
+
+    const base = await ConfigLoader.load('permissions', { directory, env: false });
+    expect(base?.files).toHaveLength(1);
+  });
+
+  it('prefers TypeScript files and reads named exports', async () => {
+    write('permissions.config.json', '{}');
+    write(
+      'permissions.config.ts',
+      "const type: string = 'sqlite';\nexport const config = { database: { type } };\n",
+    );
+
+    const loaded = await ConfigLoader.load('permissions', {
+      directory,
+      env: false,
+      exportNames: ['config'],
+    });
+    expect(loaded?.config).toEqual({ database: { type: 'sqlite' } });
+  });
+
+  // Jest replaces require and createRequire and ignores require hooks, this runs the
+  // loader on Node's own require
+  const nativeLoader = (): typeof ConfigLoader => {
+    const { outputText } = ts.transpileModule(
+      fs.readFileSync(require.resolve('./config-loader.util'), 'utf8'),
+      { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 } },
+    );
+    const host = new Module(__filename);
+    const { _cache, _extensions, _resolveFilename } = Module as any;
+    const load = Object.assign(
+      (id: string) => (id.startsWith('.') ? require(id) : host.require(id)),
+      {
+        cache: _cache,
+        extensions: _extensions,
+        resolve: (id: string, options?: object) => _resolveFilename(id, host, false, options),
+      },
+    );
+    const module = { exports: {} as { ConfigLoader: typeof ConfigLoader } };
+    new Function('module', 'exports', 'require', '__dirname', outputText)(
+      module,
+      module.exports,
+      load,
+      __dirname,
+    );
+    return module.exports.ConfigLoader;
+  };
+
+  it('names the source line of errors thrown by TypeScript files', async () => {
+    write(
+      'permissions.config.ts',
+      [
+        "import * as path from 'path';",
+        '',
+        'interface Database {',
+        '  type: string;',
+        '}',
+        '',
+        "const database: Database = { type: path.basename('/sqlite') };",
+        "if (database.type) throw new Error('No database');",
+        'export default { database };',
+      ].join('\n'),
+    );
+
+    const error = await nativeLoader()
+      .load('permissions', { directory, env: false })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ConfigurationException);
+    expect(error.message).toContain(`${path.join(directory, 'permissions.config.ts')}:8:26`);
+    expect(error.message).toContain('No database');
+  });
+
+  it('finds nothing without a base file', async () => {
+    write('permissions.production.json', '{}');
+
+    await expect(ConfigLoader.load('permissions', { directory })).resolves.toBeUndefined();
+  });
+
+  it('names the line and column of invalid JSON', async () => {
+    write('permissions.config.json', '{\n  "database": {\n    "type": "postgres",\n  }\n}');
+
+    const error = await ConfigLoader.load('permissions', { directory, env: false }).catch((e) => e);
+    expect(error).toBeInstanceOf(ConfigurationException);
+    expect(error.message).toContain(`${path.join(directory, 'permissions.config.json')}:4:3`);
+  });
+
+  it('rejects unsupported files', async () => {
+    await expect(
+      ConfigLoader.loadFile(path.join(directory, 'permissions.config.yaml')),
+    ).rejects.toThrow(/Unsupported configuration file/);
+  });
+});
@@ -0,0 +1,297 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourceMap } from 'module';
+import { pathToFileURL } from 'url';
+import { ConfigurationException } from '../exceptions/configuration.exception';
+
+export type ConfigFileExtension = '.ts' | '.js' | '.mjs' | '.json';
+
+export interface ConfigLoadOptions {
+  // Directory holding the configuration files, defaults to `<cwd>/config`
+  directory?: string;
+  // Overlay environment, defaults to NODE_ENV, false loads the base file only
+  env?: string | false;
+  // Named exports to look for when the file has no default export
+  exportNames?: string[];
+}
+
+export interface LoadedConfig<T> {
+  config: T;
+  // Base file first, then the overlay
+  files: string[];
+}
+
+// Looked up in this order, the first existing file wins
+const EXTENSIONS: ConfigFileExtension[] = ['.ts', '.js', '.mjs', '.json'];
+
+// Kept out of reach of the CommonJS transform, which would turn import() into require()
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string,
+) => Promise<Record<string, any>>;
+
+/**
+ * Loads `<name>.config.<ext>` and its `<name>.<env>.<ext>` overlay from a
+ * project's config directory. Errors name the file, line and column.
+ */
+export class ConfigLoader {
+  static readonly extensions = EXTENSIONS;
+
+  // Source maps of transpiled .ts files, errors name the line of the source
+  private static readonly sourceMaps = new Map<string, SourceMap>();
+
+  static resolve(directory: string, fileName: string): string | undefined {
+    return EXTENSIONS.map((extension) => path.join(directory, fileName + extension)).find(
+      (filePath) => fs.existsSync(filePath),
+    );
+  }
+
+  static async load<T>(
+    name: string,
+    options: ConfigLoadOptions = {},
+  ): Promise<LoadedConfig<T> | undefined> {
+    const directory = options.directory || path.join(process.cwd(), 'config');
+    const env = options.env === undefined ? process.env.NODE_ENV : options.env;
+
+    const basePath = this.resolve(directory, `${name}.config`);
+    if (!basePath) {
+      return undefined;
+    }
+
+    let config: T = await this.loadFile<T>(basePath, options.exportNames);
+    const files = [basePath];
+
+    const overlayPath = env ? this.resolve(directory, `${name}.${env}`) : undefined;
+    if (overlayPath) {
+      config = this.merge(
+        config,
+        await this.loadFile<Partial<T>>(overlayPath, options.exportNames),
+      );
+      files.push(overlayPath);
+    }
+
+    return { config, files };
+  }
+
+  static async loadFile<T>(filePath: string, exportNames: string[] = []): Promise<T> {
+    const extension = path.extname(filePath) as ConfigFileExtension;
+    if (!EXTENSIONS.includes(extension)) {
+      throw new ConfigurationException(
+        `Unsupported configuration file ${filePath}, expected one of ${EXTENSIONS.join(', ')}`,
+      );
+    }
+
+    if (extension === '.json') {
+      return this.parseJson(filePath);
+    }
+
+    try {
+      const exports = await this.evaluate(filePath, extension);
+      return this.pickExport(filePath, exports, exportNames);
+    } catch (error) {
+      if (error instanceof ConfigurationException) throw error;
+      throw this.error(filePath, this.locate(filePath, error), error.message);
+    } finally {
+      this.sourceMaps.delete(filePath);
+    }
+  }
+
+  private static async evaluate(
+    filePath: string,
+    extension: ConfigFileExtension,
+  ): Promise<Record<string, any>> {
+    if (extension === '.mjs') {
+      // The query string bypasses the ESM cache so edits are picked up
+      return importModule(`${pathToFileURL(filePath).href}?t=${Date.now()}`);
+    }
+
+    const restore = extension === '.ts' ? this.registerTypeScript(filePath) : undefined;
+    try {
+      delete require.cache[filePath];
+      return require(filePath);
+    } catch (error) {
+      // .js files inside a "type": "module" package
+      if (error.code === 'ERR_REQUIRE_ESM') {
+        return importModule(pathToFileURL(filePath).href);
+      }
+      throw error;
+    } finally {
+      restore?.();
+    }
+  }
+
+  private static registerTypeScript(filePath: string): (() => void) | undefined {
+    // ts-node or a similar hook is already registered
+    if (require.extensions['.ts']) {
+      return undefined;
+    }
+
+    const ts = this.requireTypeScript(filePath);
+    require.extensions['.ts'] = (module: any, fileName: string) => {
+      module._compile(this.transpile(ts, fileName), fileName);
+    };
+
+    return () => delete require.extensions['.ts'];
+  }
+
+  private static requireTypeScript(filePath: string): typeof import('typescript') {
+    try {
+      // Resolved from the project so the package version matches its own compiler
+      const paths = [path.dirname(filePath), process.cwd(), __dirname];
+      return require(require.resolve('typescript', { paths }));
+    } catch {
+      throw new ConfigurationException(
+        `Loading ${filePath} requires the "typescript" package, ` +
+          'install it or use a .js, .mjs or .json configuration file',
+      );
+    }
+  }
+
+  private static transpile(ts: typeof import('typescript'), fileName: string): string {
+    const output = ts.transpileModule(fs.readFileSync(fileName, 'utf8'), {
+      fileName,
+      reportDiagnostics: true,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+        sourceMap: true,
+      },
+    });
+
+    const [diagnostic] = output.diagnostics || [];
+    if (diagnostic) {
+      const position =
+        diagnostic.file && diagnostic.start !== undefined
+          ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+          : undefined;
+      throw this.error(
+        fileName,
+        position && { line: position.line + 1, column: position.character + 1 },
+        ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      );
+    }
+
+    this.sourceMaps.set(fileName, new SourceMap(JSON.parse(output.sourceMapText as string)));
+    return output.outputText;
+  }
+
+  private static parseJson<T>(filePath: string): T {
+    const content = fs.readFileSync(filePath, 'utf8');
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      const offset = this.jsonErrorPosition(error) ?? this.jsonErrorOffset(content);
+      throw this.error(filePath, this.toLocation(content, offset), error.message);
+    }
+  }
+
+  private static jsonErrorPosition(error: Error): number | undefined {
+    const match = /at position (\d+)/.exec(error.message);
+    return match ? Number(match[1]) : undefined;
+  }
+
+  private static jsonErrorOffset(content: string): number {
+    // Not every message has a position, the longest prefix that only
+    // lacks its ending stops right before the offending character
+    const isPrefix = (text: string) => {
+      try {
+        JSON.parse(text);
+        return true;
+      } catch (error) {
+        const position = this.jsonErrorPosition(error);
+        return /end of JSON input/.test(error.message) || position === text.length;
+      }
+    };
+
+    let low = 0;
+    let high = content.length;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (isPrefix(content.slice(0, middle))) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  }
+
+  private static pickExport<T>(
+    filePath: string,
+    exports: Record<string, any>,
+    exportNames: string[],
+  ): T {
+    if (exports.default !== undefined) {
+      return exports.default;
+    }
+
+    const named = exportNames.find((exportName) => exports[exportName] !== undefined);
+    if (named) {
+      return exports[named];
+    }
+
+    // A single named export of a module, but module.exports = { database } is the config itself
+    const keys = Object.keys(exports).filter((key) => key !== '__esModule');
+    const isModule =
+      exports.__esModule || Object.prototype.toString.call(exports) === '[object Module]';
+    if (isModule && keys.length === 1) {
+      return exports[keys[0]];
+    }
+    if (!isModule && keys.length) {
+      return exports as T;
+    }
+
+    throw new ConfigurationException(
+      `Cannot find the configuration in ${filePath}, export it as default` +
+        (exportNames.length ? ` or as ${exportNames.join(', ')}` : ''),
+    );
+  }
+
+  private static merge<T>(base: T, overlay: unknown): T {
+    // Objects are merged key by key, arrays and other values are replaced
+    const isPlainObject = (value: unknown): value is Record<string, any> =>
+      !!value &&
+      typeof value === 'object' &&
+      [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+    if (!isPlainObject(base) || !isPlainObject(overlay)) {
+      return (overlay === undefined ? base : overlay) as T;
+    }
+
+    const result: Record<string, any> = { ...base };
+    Object.entries(overlay).forEach(([key, value]) => {
+      result[key] = this.merge(result[key], value);
+    });
+    return result as T;
+  }
+
+  private static locate(
+    filePath: string,
+    error: Error,
+  ): { line: number; column: number } | undefined {
+    // First stack frame inside the configuration file
+    const escaped = filePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`${escaped}(?:\\?[^:]*)?:(\\d+):(\\d+)`).exec(error?.stack || '');
+    if (!match) {
+      return undefined;
+    }
+
+    const line = Number(match[1]);
+    const column = Number(match[2]);
+    const entry = this.sourceMaps.get(filePath)?.findEntry(line - 1, column - 1);
+    return entry && 'originalLine' in entry
+      ? { line: entry.originalLine + 1, column: entry.originalColumn + 1 }
+      : { line, column };
+  }
+
+  private static toLocation(content: string, offset: number): { line: number; column: number } {
+    const lines = content.slice(0, offset).split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+
+  private static error(
+    filePath: string,
+    location: { line: number; column: number } | undefined,
+    message: string,
+  ): ConfigurationException {
+    const where = location ? `${filePath}:${location.line}:${location.column}` : filePath;
+    return new ConfigurationException(`Invalid configuration in ${where}: ${message}`);
+  }
+}
@@ -0,0 +1,99 @@
+import { ValidationException } from '../exceptions/permission.exceptions';
+
+export class DtoValidator {
+  static requireObject(input: any): Record<string, any> {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new ValidationException('body', 'Expected a JSON object');
+    }
+    return input;
+  }
+
+  static requireString(input: Record<string, any>, field: string): string {
+    const value = input[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new ValidationException(field, 'Must be a non-empty string');
+    }
+    return value.trim();
+  }
+
+  static optionalString(input: Record<string, any>, field: string): string | undefined {
+    return input[field] === undefined ? undefined : this.requireString(input, field);
+  }
+
+  static optionalNumber(input: Record<string, any>, field: string): number | undefined {
+    const value = input[field];
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    // Query string values arrive as strings
+    const parsed = typeof value === 'string' ? Number(value) : value;
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      throw new ValidationException(field, 'Must be a number');
+    }
+    return parsed;
+  }
+
+  static optionalInteger(
+    input: Record<string, any>,
+    field: string,
+    min = 0,
+    max = Number.MAX_SAFE_INTEGER,
+  ): number | undefined {
+    const value = this.optionalNumber(input, field);
+    if (value !== undefined && (!Number.isInteger(value) || value < min || value > max)) {
+      throw new ValidationException(field, `Must be an integer between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  static optionalBoolean(input: Record<string, any>, field: string): boolean | undefined {
+    const value = input[field];
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    if (value === true || value === 'true') return true;
+    if (value === false || value === 'false') return false;
+    throw new ValidationException(field, 'Must be a boolean');
+  }
+
+  static optionalDate(input: Record<string, any>, field: string): Date | undefined {
+    const value = input[field];
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (typeof value === 'boolean' || Number.isNaN(date.getTime())) {
+      throw new ValidationException(field, 'Must be an ISO 8601 date');
+    }
+    return date;
+  }
+
+  static optionalEnum<T extends string>(
+    input: Record<string, any>,
+    field: string,
+    values: readonly T[],
+  ): T | undefined {
+    const value = input[field];
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    if (!values.includes(value)) {
+      throw new ValidationException(field, `Must be one of: ${values.join(', ')}`);
+    }
+    return value;
+  }
+
+  static requireEnum<T extends string>(
+    input: Record<string, any>,
+    field: string,
+    values: readonly T[],
+  ): T {
+    const value = this.optionalEnum(input, field, values);
+    if (value === undefined) {
+      throw new ValidationException(field, `Must be one of: ${values.join(', ')}`);
+    }
+    return value;
+  }
+}
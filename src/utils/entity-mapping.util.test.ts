@@ -0,0 +1,98 @@
+import { DataSource, getMetadataArgsStorage } from 'typeorm';
+import { EntityMapper } from './entity-mapping.util';
+import { EntityMappings } from '../interfaces/config.interface';
+import { AuditLogEntity } from '../models/audit-log.entity';
+import { PermissionEntity } from '../models/permission.entity';
+import { PermissionPolicyEntity } from '../models/permission-policy.entity';
+import { UserPermissionEntity } from '../models/user-permission.entity';
+import { createTestDataSource, createTestServices } from '../testing/test-module';
+
+describe('EntityMapper', () => {
+  let dataSource: DataSource | undefined;
+
+  const legacy: EntityMappings = {
+    permissions: { tableName: 'acl_perms', fields: { name: 'perm_name', isActive: 'enabled' } },
+    userPermissions: {
+      tableName: 'acl_grants',
+      fields: { userId: 'uid', permissionId: 'perm_id' },
+    },
+  };
+
+  afterEach(async () => {
+    await dataSource?.destroy();
+    dataSource = undefined;
+    // Mapping without names restores the declared ones
+    EntityMapper.apply({ permissions: {}, userPermissions: {} });
+  });
+
+  const columnNames = (target: object) =>
+    dataSource!
+      .getMetadata(target as any)
+      .columns.map((column) => column.databaseName)
+      .sort();
+
+  it('points the entities at the configured tables and columns', async () => {
+    EntityMapper.apply(legacy);
+    dataSource = await createTestDataSource();
+
+    expect(dataSource.getMetadata(PermissionEntity).tableName).toBe('acl_perms');
+    expect(columnNames(PermissionEntity)).toEqual(
+      expect.arrayContaining(['perm_name', 'enabled', 'description']),
+    );
+    expect(columnNames(PermissionEntity)).not.toContain('name');
+
+    // The relation joins on the renamed foreign key
+    const relation = dataSource
+      .getMetadata(UserPermissionEntity)
+      .findRelationWithPropertyPath('permission');
+    expect(relation?.joinColumns.map((column) => column.databaseName)).toEqual(['perm_id']);
+  });
+
+  it('runs the services against the mapped schema', async () => {
+    EntityMapper.apply(legacy);
+    dataSource = await createTestDataSource();
+    await dataSource.query(
+      `INSERT INTO acl_perms (perm_name, description, level, enabled, created_at, updated_at)
+       VALUES ('reports.read', '', 1, 1, datetime('now'), datetime('now'))`,
+    );
+    const { permissionService } = await createTestServices(dataSource);
+
+    await permissionService.grantPermission('u1', 'reports.read', 'admin');
+
+    expect(await dataSource.query('SELECT uid, perm_id FROM acl_grants')).toEqual([
+      { uid: 'u1', perm_id: 1 },
+    ]);
+    expect((await permissionService.getUserPermissions('u1')).map((p) => p.name)).toEqual([
+      'reports.read',
+    ]);
+  });
+
+  it('applies mappings relative to the declared names', async () => {
+    EntityMapper.apply(legacy);
+    EntityMapper.apply({ permissions: { fields: { level: 'rank' } } });
+    dataSource = await createTestDataSource();
+
+    expect(dataSource.getMetadata(PermissionEntity).tableName).toBe('permissions');
+    expect(columnNames(PermissionEntity)).toEqual(
+      expect.arrayContaining(['name', 'is_active', 'rank']),
+    );
+  });
+
+  it('gives the enum and JSON columns the types of the database', () => {
+    const declaredType = (target: object, propertyName: string) =>
+      getMetadataArgsStorage().columns.find(
+        (column) => column.target === target && column.propertyName === propertyName,
+      )?.options.type;
+
+    EntityMapper.applyDialect('mysql');
+    expect(declaredType(AuditLogEntity, 'action')).toBe('enum');
+    expect(declaredType(PermissionPolicyEntity, 'conditions')).toBe('json');
+
+    EntityMapper.applyDialect('postgres');
+    expect(declaredType(AuditLogEntity, 'metadata')).toBe('jsonb');
+
+    EntityMapper.applyDialect('sqlite');
+    expect(declaredType(AuditLogEntity, 'action')).toBe('simple-enum');
+    expect(declaredType(AuditLogEntity, 'metadata')).toBe('simple-json');
+  });
+});
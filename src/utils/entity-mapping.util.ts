@@ -0,0 +1,106 @@
+import { ColumnType, getMetadataArgsStorage } from 'typeorm';
+import { DatabaseConfig, EntityMappings } from '../interfaces/config.interface';
+import { PermissionEntity } from '../models/permission.entity';
+import { RouterPermissionEntity } from '../models/router-permission.entity';
+import { UserPermissionEntity } from '../models/user-permission.entity';
+import { RoleEntity } from '../models/role.entity';
+import { RolePermissionEntity } from '../models/role-permission.entity';
+import { UserRoleEntity } from '../models/user-role.entity';
+import { RoleInheritanceEntity } from '../models/role-inheritance.entity';
+import { PermissionPolicyEntity } from '../models/permission-policy.entity';
+import { AuditLogEntity } from '../models/audit-log.entity';
+
+const MAPPED_ENTITIES: Record<keyof DatabaseConfig['entities'], new () => object> = {
+  permissions: PermissionEntity,
+  routerPermissions: RouterPermissionEntity,
+  userPermissions: UserPermissionEntity,
+  roles: RoleEntity,
+  rolePermissions: RolePermissionEntity,
+  userRoles: UserRoleEntity,
+  roleInheritance: RoleInheritanceEntity,
+  permissionPolicies: PermissionPolicyEntity,
+};
+
+// Column types the generated migrations create, the entities declare the PostgreSQL ones
+const DIALECT_COLUMN_TYPES: Record<string, Record<'enum' | 'json', ColumnType>> = {
+  postgres: { enum: 'enum', json: 'jsonb' },
+  mysql: { enum: 'enum', json: 'json' },
+  sqlite: { enum: 'simple-enum', json: 'simple-json' },
+};
+
+const DIALECT_COLUMNS: Array<[new () => object, string, 'enum' | 'json']> = [
+  [AuditLogEntity, 'action', 'enum'],
+  [AuditLogEntity, 'metadata', 'json'],
+  [PermissionPolicyEntity, 'conditions', 'json'],
+];
+
+export class EntityMapper {
+  // Names given by the entity decorators, every mapping is applied relative to them
+  private static readonly declaredNames = new WeakMap<object, string | undefined>();
+
+  /**
+   * Points the entities at the configured tables and columns. Field keys are the camelCase
+   * property names, e.g. `isActive` for `is_active`. TypeORM reads the names when the
+   * DataSource is initialized, so this has to run before the connection is created.
+   */
+  static apply(entities: EntityMappings): void {
+    const storage = getMetadataArgsStorage();
+
+    for (const [key, target] of Object.entries(MAPPED_ENTITIES)) {
+      const mapping = entities[key as keyof EntityMappings];
+      const table = storage.tables.find((t) => t.target === target);
+      if (!mapping || !table) {
+        continue;
+      }
+
+      const tableName = this.declared(table, table.name);
+      (table as { name?: string }).name = mapping.tableName || tableName;
+
+      // Join columns reference the column names, so they follow the renamed columns
+      const renamed = new Map<string, string>();
+      for (const column of storage.columns.filter((c) => c.target === target)) {
+        const declared = this.declared(column, column.options.name);
+        const field = mapping.fields?.[this.toFieldKey(column.propertyName)];
+        column.options.name = field || declared;
+        renamed.set(declared || column.propertyName, field || declared || column.propertyName);
+      }
+
+      for (const joinColumn of storage.joinColumns.filter((j) => j.target === target)) {
+        const declared = this.declared(joinColumn, joinColumn.name);
+        joinColumn.name = declared ? renamed.get(declared) || declared : declared;
+      }
+    }
+  }
+
+  /**
+   * Gives the enum and JSON columns the types the generated migrations create for the
+   * database type. Like `apply()`, this has to run before the connection is created.
+   */
+  static applyDialect(type: DatabaseConfig['type']): void {
+    const types = DIALECT_COLUMN_TYPES[type];
+    if (!types) {
+      return;
+    }
+
+    const storage = getMetadataArgsStorage();
+    for (const [target, propertyName, kind] of DIALECT_COLUMNS) {
+      const column = storage.columns.find(
+        (c) => c.target === target && c.propertyName === propertyName,
+      );
+      if (column) {
+        column.options.type = types[kind];
+      }
+    }
+  }
+
+  private static declared(args: object, name: string | undefined): string | undefined {
+    if (!this.declaredNames.has(args)) {
+      this.declaredNames.set(args, name);
+    }
+    return this.declaredNames.get(args);
+  }
+
+  private static toFieldKey(propertyName: string): string {
+    return propertyName.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+  }
+}
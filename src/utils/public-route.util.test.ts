@@ -0,0 +1,41 @@
+import { PublicRouteMatcher } from './public-route.util';
+
+describe('PublicRouteMatcher', () => {
+  it('matches exact paths for every method', () => {
+    const matcher = new PublicRouteMatcher(['/auth/login']);
+
+    expect(matcher.matches('/auth/login', 'POST')).toBe(true);
+    expect(matcher.matches('/auth/login/', 'GET')).toBe(true);
+    expect(matcher.matches('/auth/logout', 'POST')).toBe(false);
+  });
+
+  it('matches globs and params', () => {
+    const matcher = new PublicRouteMatcher(['/docs/**', '/health/*', '/share/:token']);
+
+    expect(matcher.matches('/docs', 'GET')).toBe(true);
+    expect(matcher.matches('/docs/api/v1', 'GET')).toBe(true);
+    expect(matcher.matches('/health/live', 'GET')).toBe(true);
+    expect(matcher.matches('/health/live/extra', 'GET')).toBe(false);
+    expect(matcher.matches('/share/abc', 'GET')).toBe(true);
+  });
+
+  it('scopes routes to their methods', () => {
+    const matcher = new PublicRouteMatcher([{ path: '/articles/**', methods: ['GET', 'HEAD'] }]);
+
+    expect(matcher.matches('/articles/1', 'get')).toBe(true);
+    expect(matcher.matches('/articles/1', 'HEAD')).toBe(true);
+    expect(matcher.matches('/articles/1', 'DELETE')).toBe(false);
+  });
+
+  it('matches regular expressions, also repeatedly with the global flag', () => {
+    const matcher = new PublicRouteMatcher([
+      /^\/assets\/.+\.css$/g,
+      { path: /^\/webhooks\//, methods: ['POST'] },
+    ]);
+
+    expect(matcher.matches('/assets/site.css', 'GET')).toBe(true);
+    expect(matcher.matches('/assets/site.css', 'GET')).toBe(true);
+    expect(matcher.matches('/webhooks/stripe', 'POST')).toBe(true);
+    expect(matcher.matches('/webhooks/stripe', 'GET')).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { PublicRoute } from '../interfaces/config.interface';
+import { RouteMatcher, RouteRule } from './route-matcher.util';
+
+interface RegexRoute {
+  regex: RegExp;
+  methods: string[];
+}
+
+export class PublicRouteMatcher {
+  private readonly globMatcher: RouteMatcher<boolean>;
+  private readonly regexRoutes: RegexRoute[] = [];
+
+  constructor(routes: PublicRoute[] = []) {
+    const globRules: RouteRule<boolean>[] = [];
+
+    for (const entry of routes) {
+      const { path, methods } =
+        typeof entry === 'string' || entry instanceof RegExp ? { path: entry, methods: [] } : entry;
+      const normalizedMethods = (methods || []).map((m) => RouteMatcher.normalizeMethod(m));
+
+      if (path instanceof RegExp) {
+        // Drop the global flag so test() does not keep state between requests
+        const regex = new RegExp(path.source, path.flags.replace('g', ''));
+        this.regexRoutes.push({ regex, methods: normalizedMethods });
+        continue;
+      }
+
+      // Without methods the route is public for every method
+      const scopedMethods = normalizedMethods.length > 0 ? normalizedMethods : ['*'];
+      scopedMethods.forEach((method) => globRules.push({ route: path, method, value: true }));
+    }
+
+    this.globMatcher = new RouteMatcher(globRules);
+  }
+
+  matches(path: string, method: string): boolean {
+    if (this.globMatcher.match(path, method).length > 0) {
+      return true;
+    }
+
+    const normalizedPath = RouteMatcher.normalizePath(path);
+    const normalizedMethod = RouteMatcher.normalizeMethod(method);
+
+    return this.regexRoutes.some(
+      ({ regex, methods }) =>
+        (methods.length === 0 || methods.includes('*') || methods.includes(normalizedMethod)) &&
+        regex.test(normalizedPath),
+    );
+  }
+}
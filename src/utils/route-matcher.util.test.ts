@@ -0,0 +1,48 @@
+import { RouteMatcher } from './route-matcher.util';
+
+describe('RouteMatcher', () => {
+  const matcher = new RouteMatcher([
+    { route: '/users/me', method: 'GET', value: 'me' },
+    { route: '/users/:id', method: 'GET', value: 'user' },
+    { route: '/users/:id', method: '*', value: 'user-any' },
+    { route: '/files/*', method: '*', value: 'file' },
+    { route: '/admin/**', method: 'DELETE', value: 'admin' },
+    { route: '/admin/users', method: 'DELETE', value: 'admin-users' },
+  ]);
+
+  it('matches params, wildcards and globs', () => {
+    expect(matcher.match('/users/42', 'GET')).toEqual(['user']);
+    expect(matcher.match('/files/report.pdf', 'post')).toEqual(['file']);
+    expect(matcher.match('/files/a/b', 'GET')).toEqual([]);
+    expect(matcher.match('/admin', 'DELETE')).toEqual(['admin']);
+    expect(matcher.match('/admin/roles/7', 'DELETE')).toEqual(['admin']);
+  });
+
+  it('ranks static segments over params and exact methods over *', () => {
+    expect(matcher.match('/users/me', 'GET')).toEqual(['me']);
+    expect(matcher.match('/users/42', 'PUT')).toEqual(['user-any']);
+  });
+
+  it('returns every matching pattern, most specific first', () => {
+    expect(matcher.matchAll('/users/me', 'GET')).toEqual(['me', 'user', 'user-any']);
+    expect(matcher.matchAll('/admin/users', 'DELETE')).toEqual(['admin-users', 'admin']);
+  });
+
+  it('matches case-insensitively like Express', () => {
+    expect(matcher.match('/Users/ME', 'GET')).toEqual(['me']);
+    expect(matcher.matchAll('/ADMIN/Users', 'delete')).toEqual(['admin-users', 'admin']);
+  });
+
+  it('ignores query strings and trailing slashes', () => {
+    expect(matcher.match('/users/42/?expand=roles', 'GET')).toEqual(['user']);
+    expect(RouteMatcher.normalizePath('')).toBe('/');
+    expect(RouteMatcher.normalizePath('users/')).toBe('/users');
+  });
+
+  it('escapes regex characters in static segments', () => {
+    const dotted = new RouteMatcher([{ route: '/v1.0/status', method: 'GET', value: true }]);
+
+    expect(dotted.match('/v1.0/status', 'GET')).toEqual([true]);
+    expect(dotted.match('/v1x0/status', 'GET')).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+export interface RouteRule<T> {
+  route: string;
+  method: string;
+  value: T;
+}
+
+interface CompiledRoute<T> {
+  pattern: string;
+  method: string;
+  regex: RegExp;
+  score: number[];
+  values: T[];
+}
+
+// Segment weights used to rank overlapping patterns, most specific first
+const STATIC_SEGMENT = 4;
+const PARAM_SEGMENT = 3;
+const WILDCARD_SEGMENT = 2;
+const END_OF_PATTERN = 1;
+const GLOBSTAR_SEGMENT = 0;
+
+export class RouteMatcher<T> {
+  private readonly routes: CompiledRoute<T>[] = [];
+
+  constructor(rules: RouteRule<T>[] = []) {
+    const grouped = new Map<string, CompiledRoute<T>>();
+
+    for (const rule of rules) {
+      const pattern = RouteMatcher.normalizePath(rule.route);
+      const method = RouteMatcher.normalizeMethod(rule.method);
+      const key = `${method} ${pattern}`;
+
+      let compiled = grouped.get(key);
+      if (!compiled) {
+        compiled = {
+          pattern,
+          method,
+          regex: RouteMatcher.compilePattern(pattern),
+          score: RouteMatcher.scorePattern(pattern),
+          values: [],
+        };
+        grouped.set(key, compiled);
+      }
+      compiled.values.push(rule.value);
+    }
+
+    this.routes = [...grouped.values()].sort((a, b) => RouteMatcher.compareRoutes(a, b));
+  }
+
+  // Returns the values of the most specific pattern matching the path and method
+  match(path: string, method: string): T[] {
+    const normalizedPath = RouteMatcher.normalizePath(path);
+    const normalizedMethod = RouteMatcher.normalizeMethod(method);
+
+    const route = this.routes.find(
+      (r) => (r.method === '*' || r.method === normalizedMethod) && r.regex.test(normalizedPath),
+    );
+
+    return route ? route.values : [];
+  }
+
+  // Returns the values of every pattern matching the path and method
+  matchAll(path: string, method: string): T[] {
+    const normalizedPath = RouteMatcher.normalizePath(path);
+    const normalizedMethod = RouteMatcher.normalizeMethod(method);
+
+    return this.routes
+      .filter(
+        (r) => (r.method === '*' || r.method === normalizedMethod) && r.regex.test(normalizedPath),
+      )
+      .flatMap((r) => r.values);
+  }
+
+  get size(): number {
+    return this.routes.length;
+  }
+
+  static normalizePath(path: string): string {
+    const withoutQuery = path.split('?')[0];
+    const trimmed = withoutQuery.replace(/\/+$/, '');
+    return trimmed.startsWith('/') ? trimmed || '/' : `/${trimmed}`;
+  }
+
+  static normalizeMethod(method: string): string {
+    return method.toUpperCase();
+  }
+
+  private static compilePattern(pattern: string): RegExp {
+    const segments = pattern.split('/').filter(Boolean);
+    let source = '';
+
+    segments.forEach((segment) => {
+      if (segment === '**') {
+        // Zero or more segments
+        source += '(?:/.*)?';
+      } else if (segment === '*' || segment.startsWith(':')) {
+        source += '/[^/]+';
+      } else {
+        source += '/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }
+    });
+
+    // Express matches routes case-insensitively by default
+    return new RegExp(`^${source || '/'}$`, 'i');
+  }
+
+  private static scorePattern(pattern: string): number[] {
+    return pattern
+      .split('/')
+      .filter(Boolean)
+      .map((segment) => {
+        if (segment === '**') return GLOBSTAR_SEGMENT;
+        if (segment === '*') return WILDCARD_SEGMENT;
+        if (segment.startsWith(':')) return PARAM_SEGMENT;
+        return STATIC_SEGMENT;
+      });
+  }
+
+  private static compareRoutes<T>(a: CompiledRoute<T>, b: CompiledRoute<T>): number {
+    const length = Math.max(a.score.length, b.score.length);
+
+    for (let i = 0; i < length; i++) {
+      // A pattern that ends here only ranks above a trailing `**`
+      const scoreA = a.score[i] ?? END_OF_PATTERN;
+      const scoreB = b.score[i] ?? END_OF_PATTERN;
+      if (scoreA !== scoreB) {
+        return scoreB - scoreA;
+      }
+    }
+
+    // An exact method beats the `*` method
+    if (a.method !== b.method) {
+      return a.method === '*' ? 1 : -1;
+    }
+
+    return 0;
+  }
+}
@@ -0,0 +1,220 @@
+import { DatabaseConfig } from '../interfaces/config.interface';
+import { MigrationException } from '../exceptions/migration.exception';
+
+export type SqlDialectType = Exclude<DatabaseConfig['type'], 'mongodb'>;
+
+// code columns hold short enumerated values such as HTTP methods and effects
+export type ColumnKind =
+  | 'uuid'
+  | 'string'
+  | 'code'
+  | 'text'
+  | 'json'
+  | 'boolean'
+  | 'integer'
+  | 'timestamp';
+
+interface DialectSpec {
+  quote: string;
+  // Auto-increment integer key, matching PrimaryGeneratedColumn()
+  primaryKey: string;
+  types: Record<ColumnKind, string>;
+  uuidDefault: string;
+  currentTimestamp: string;
+  // false and true literals
+  booleans: [string, string];
+}
+
+// SQLite has no UUID function, this builds a version 4 UUID from random bytes
+const SQLITE_UUID =
+  "(lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || " +
+  "substr(lower(hex(randomblob(2))), 2) || '-' || substr('89ab', abs(random()) % 4 + 1, 1) || " +
+  "substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))))";
+
+const DIALECTS: Record<SqlDialectType, DialectSpec> = {
+  postgres: {
+    quote: '"',
+    primaryKey: 'serial PRIMARY KEY',
+    types: {
+      uuid: 'uuid',
+      string: 'varchar',
+      code: 'varchar(16)',
+      text: 'text',
+      json: 'jsonb',
+      boolean: 'boolean',
+      integer: 'integer',
+      timestamp: 'timestamp',
+    },
+    uuidDefault: 'gen_random_uuid()',
+    currentTimestamp: 'CURRENT_TIMESTAMP',
+    booleans: ['false', 'true'],
+  },
+  mysql: {
+    quote: '`',
+    primaryKey: 'int NOT NULL AUTO_INCREMENT PRIMARY KEY',
+    // Indexed varchar columns need a length, and an index key may not exceed 3072 bytes
+    types: {
+      uuid: 'varchar(36)',
+      string: 'varchar(255)',
+      code: 'varchar(16)',
+      text: 'text',
+      json: 'json',
+      boolean: 'tinyint(1)',
+      integer: 'int',
+      timestamp: 'datetime',
+    },
+    uuidDefault: '(UUID())',
+    currentTimestamp: 'CURRENT_TIMESTAMP',
+    booleans: ['0', '1'],
+  },
+  sqlite: {
+    quote: '"',
+    primaryKey: 'integer PRIMARY KEY AUTOINCREMENT',
+    types: {
+      uuid: 'varchar(36)',
+      string: 'varchar',
+      code: 'varchar(16)',
+      text: 'text',
+      json: 'text',
+      boolean: 'boolean',
+      integer: 'integer',
+      timestamp: 'datetime',
+    },
+    uuidDefault: SQLITE_UUID,
+    currentTimestamp: 'CURRENT_TIMESTAMP',
+    booleans: ['0', '1'],
+  },
+};
+
+/**
+ * Renders the DDL statements of generated migrations for one database type.
+ */
+export class SqlDialect {
+  private constructor(
+    readonly type: SqlDialectType,
+    private readonly spec: DialectSpec,
+  ) {}
+
+  static for(type: DatabaseConfig['type']): SqlDialect {
+    if (!(type in DIALECTS)) {
+      throw new MigrationException(
+        'UNSUPPORTED_DIALECT',
+        `Cannot generate SQL migrations for database type "${type}"`,
+      );
+    }
+    return new SqlDialect(type as SqlDialectType, DIALECTS[type as SqlDialectType]);
+  }
+
+  quote(identifier: string): string {
+    const { quote } = this.spec;
+    return `${quote}${identifier.split(quote).join(quote + quote)}${quote}`;
+  }
+
+  columnType(kind: ColumnKind): string {
+    return this.spec.types[kind];
+  }
+
+  primaryKey(): string {
+    return this.spec.primaryKey;
+  }
+
+  uuidDefault(): string {
+    return this.spec.uuidDefault;
+  }
+
+  currentTimestamp(): string {
+    return this.spec.currentTimestamp;
+  }
+
+  booleanLiteral(value: boolean): string {
+    return this.spec.booleans[value ? 1 : 0];
+  }
+
+  /**
+   * Creates the named enum type PostgreSQL columns refer to, other databases need none.
+   */
+  createEnumType(name: string, values: string[]): string | undefined {
+    return this.type === 'postgres'
+      ? `CREATE TYPE ${this.quote(name)} AS ENUM (${this.literals(values)})`
+      : undefined;
+  }
+
+  dropEnumType(name: string): string | undefined {
+    return this.type === 'postgres' ? `DROP TYPE IF EXISTS ${this.quote(name)}` : undefined;
+  }
+
+  // SQLite has no enum type, a CHECK constraint limits the values like TypeORM's simple-enum
+  enumColumn(typeName: string, column: string, values: string[]): string {
+    if (this.type === 'postgres') {
+      return this.quote(typeName);
+    }
+    if (this.type === 'mysql') {
+      return `enum (${this.literals(values)})`;
+    }
+    return `${this.columnType('string')} CHECK (${this.quote(column)} IN (${this.literals(values)}))`;
+  }
+
+  unique(name: string, columns: string[]): string {
+    const list = columns.map((column) => this.quote(column)).join(', ');
+    return `CONSTRAINT ${this.quote(name)} UNIQUE (${list})`;
+  }
+
+  foreignKey(name: string, column: string, table: string, referenced: string): string {
+    return (
+      `CONSTRAINT ${this.quote(name)} FOREIGN KEY (${this.quote(column)}) ` +
+      `REFERENCES ${this.quote(table)} (${this.quote(referenced)}) ON DELETE CASCADE`
+    );
+  }
+
+  /**
+   * Nullable columns are indexed as `COALESCE(column, '')`, so that unique indexes treat NULL
+   * like any other value. MySQL needs 8.0.13 or later for these expressions.
+   */
+  createIndex(
+    name: string,
+    table: string,
+    columns: string[],
+    options: { unique?: boolean; nullable?: string[] } = {},
+  ): string {
+    const list = columns
+      .map((column) =>
+        options.nullable?.includes(column)
+          ? `(COALESCE(${this.quote(column)}, ''))`
+          : this.quote(column),
+      )
+      .join(', ');
+    const kind = options.unique ? 'UNIQUE INDEX' : 'INDEX';
+    return `CREATE ${kind} ${this.quote(name)} ON ${this.quote(table)} (${list})`;
+  }
+
+  dropIndex(name: string, table: string): string {
+    // MySQL indexes belong to their table
+    return this.type === 'mysql'
+      ? `DROP INDEX ${this.quote(name)} ON ${this.quote(table)}`
+      : `DROP INDEX ${this.quote(name)}`;
+  }
+
+  renameTable(from: string, to: string): string {
+    return `ALTER TABLE ${this.quote(from)} RENAME TO ${this.quote(to)}`;
+  }
+
+  renameColumn(table: string, from: string, to: string): string {
+    return `ALTER TABLE ${this.quote(table)} RENAME COLUMN ${this.quote(from)} TO ${this.quote(to)}`;
+  }
+
+  addColumn(table: string, column: string, definition: string): string {
+    return `ALTER TABLE ${this.quote(table)} ADD COLUMN ${this.quote(column)} ${definition}`;
+  }
+
+  dropColumn(table: string, column: string): string {
+    return `ALTER TABLE ${this.quote(table)} DROP COLUMN ${this.quote(column)}`;
+  }
+
+  dropTable(table: string): string {
+    return `DROP TABLE IF EXISTS ${this.quote(table)}`;
+  }
+
+  private literals(values: string[]): string {
+    return values.map((value) => `'${value.replace(/'/g, "''")}'`).join(', ');
+  }
+}
@@ -0,0 +1,38 @@
+import { TenantConfig } from '../interfaces/config.interface';
+
+const DEFAULT_TENANT_HEADER = 'x-tenant-id';
+const DEFAULT_TENANT_CLAIM = 'tenantId';
+
+export class TenantExtractor {
+  static extract(config: TenantConfig, request: any, user: any): string | undefined {
+    switch (config.source) {
+      case 'header': {
+        const header = (config.key || DEFAULT_TENANT_HEADER).toLowerCase();
+        return this.toTenantId(request?.headers?.[header]);
+      }
+      case 'subdomain':
+        return this.fromHostname(request?.hostname ?? request?.headers?.host);
+      case 'claim':
+        return this.toTenantId(user?.[config.key || DEFAULT_TENANT_CLAIM]);
+      default:
+        return undefined;
+    }
+  }
+
+  private static fromHostname(host: unknown): string | undefined {
+    if (typeof host !== 'string') {
+      return undefined;
+    }
+
+    // Only `tenant.example.com` carries a tenant, `example.com` does not
+    const labels = host.split(':')[0].split('.');
+    return labels.length > 2 ? this.toTenantId(labels[0]) : undefined;
+  }
+
+  private static toTenantId(value: unknown): string | undefined {
+    const tenantId = Array.isArray(value) ? value[0] : value;
+    return tenantId === undefined || tenantId === null || tenantId === ''
+      ? undefined
+      : String(tenantId);
+  }
+}